@@ -1,81 +1,106 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import './App.css'
-import { X, TrendingUp, RefreshCw, LogOut } from 'lucide-react'
+import { X, TrendingUp, RefreshCw, LogOut, Settings } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
-import { generateMissingMarkets, oddsToProbabilities, convertMarketToAPI, SupportedMarket } from './utils/marketGenerator'
+import { convertMarketToAPI, getWinningMarginLabel, mergeAlternateTotals, SupportedMarket } from './utils/marketGenerator'
 import { Auth } from './components/Auth'
-
-const API_KEY = 'a3b186794403af630516172e9184ef1f'
+import { ExtraMarkets } from './components/ExtraMarkets'
+import { SettingsPanel } from './components/SettingsPanel'
+import { OddsComparisonDrawer } from './components/OddsComparisonDrawer'
+import { LeaguePicker } from './components/LeaguePicker'
+import { VirtualMatchList } from './components/VirtualMatchList'
+import { OutrightsView } from './components/OutrightsView'
+import { SameGameMultiSummary } from './components/SameGameMultiSummary'
+import { SystemBetSelector } from './components/SystemBetSelector'
+import { SystemBetSettlement } from './components/SystemBetSettlement'
+import { BetSlipTab, BetSlipTabs } from './components/BetSlipTabs'
+import { SingleStakeInput } from './components/SingleStakeInput'
+import { SimulatorControls } from './components/SimulatorControls'
+import { createOddsProvider, OddsRequest, oddsRequestKey, toOutrightsRequest } from './utils/oddsProvider'
+import { formatHandicap, getHandicapOutcomeLabel, HandicapSettlement, isQuarterLine, settleAsianHandicap, splitHandicapLine } from './utils/asianHandicap'
+import { BetMarket, CashOutEvent, League, Match, MatchScore, Outright, OutrightPrice, PendingBet, Selection } from './types'
+import { AppSettings, loadSettings, saveSettings, toOddsRequest } from './utils/settings'
+import { selectModelMarkets } from './utils/consensus'
+import { generateSportMarkets, sportScoreProbabilities, toOvertimeMoneyline } from './utils/sportModels'
+import { getSportConfig } from './utils/sports'
+import { SeasonSimulation, simulateOutrightSlip } from './utils/outrights'
+import { priceSameGameMulti, SameGameMultiPrice } from './utils/sameGameMulti'
+import { canSettleFromScores, getScoresRequests, isBetInReview, settleBetFromScores } from './utils/settlement'
+import { getUnitValue, quoteCashOut, reduceBet } from './utils/cashOut'
+import { CashOutPanel } from './components/CashOutPanel'
+import { SelectionOdds } from './components/SelectionOdds'
+import { acceptOddsChange, getLatestOdds, hasOddsChanged, isAutoAccepted } from './utils/oddsChanges'
+import { WalletPanel } from './components/WalletPanel'
+import { ResponsibleGamblingPanel } from './components/ResponsibleGamblingPanel'
+import { applyDueLimitChanges, DEFAULT_RESPONSIBLE_GAMBLING_SETTINGS, getLimitViolation, loadResponsibleGamblingSettings, ResponsibleGamblingSettings, saveResponsibleGamblingSettings } from './utils/responsibleGambling'
+import { authHeaders, AuthSession, clearSession, createAuthProvider, loadSession, saveSession } from './utils/authProvider'
+import { appendLedger, BetStatus, LedgerEntry, ledgerBalance, loadBets, loadLedger, loadReplayBatches, openLedger, saveBets, saveReplayBatch, StoredBet } from './utils/betLedger'
+import { addToStoredBalance, DEFAULT_CURRENCY, depositTransactions, formatMoney, getStartingBalance, getWalletBalances, loadCurrency, loadStoredBalance, saveCurrency, saveStoredBalance, toLedgerEntries, WalletTransaction } from './utils/wallet'
+import { describeTrialBatch, runTrials, TrialProgress } from './utils/simulationClient'
+import { createLocalSimulationEngine, createSimulationEngine, SimulationPath, SimulationRequest, SimulationResponse } from './utils/simulationEngine'
+import { getExpectedReturn, TrialSummary } from './utils/simulationAnalytics'
+import { SimulationAnalytics } from './components/SimulationAnalytics'
+import { ScoreProbability } from './utils/oddsConverter'
+import { DEFAULT_SIMULATION_CONTROLS, describeSimulationParameters, getSimulationParameters, getVolatilityLabel, loadSimulationControls, saveSimulationControls, SimulationControls } from './utils/simulationControls'
+import { compareReplayOutcomes, getBatchReplays, getReplayOutcome, getTrialSeed, isReplayOfSlip, SimulationReplay, toReplayBatch } from './utils/replays'
+import { buildSystemLines, getSystemBetLabel, isSystemBetAvailable, settleSystemLines, SystemBet } from './utils/systemBets'
+
+const oddsProvider = createOddsProvider()
+const authProvider = createAuthProvider()
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+const SCORES_POLL_INTERVAL = 15 * 60 * 1000 // 15 minutes
+const SESSION_CHECK_INTERVAL = 60 * 1000 // 1 minute
 const SIMULATION_API_URL = import.meta.env.VITE_SIMULATION_API_URL || 'http://localhost:8000'
 
-interface Selection {
-  id: string
-  matchId: string
-  match: string
-  selection: string
-  odds: number
-  market: 'h2h' | 'spreads' | 'totals' | 'btts' | 'correct_score'
-  side: 'home' | 'away' | 'draw' | 'over' | 'under' | 'yes' | 'no' | string
-  point?: number
-}
-
-interface PendingBet {
-  id: string
-  selections: Selection[]
-  stake: number
-  potentialWin: number
-  placedAt: Date
-}
+/** Runs one trial on the engine selected for the batch */
+type SimulateTrial = <P extends SimulationPath>(path: P, request: SimulationRequest<P>) => Promise<SimulationResponse<P>>
 
-interface MarketOdds {
-  home: number
-  draw?: number
-  away: number
-}
-
-interface SpreadOdds {
-  point: number
-  home: number
-  away: number
+interface CachedData {
+  data: Match[]
+  /** Set for outright leagues, whose `data` is empty */
+  outrights?: Outright[]
+  fetchedAt: number
+  request: OddsRequest
 }
 
-interface TotalsOdds {
-  point: number
-  over: number
-  under: number
+/**
+ * Final-score distribution a match is simulated and same-game priced from
+ */
+function matchScoreProbabilities(match: Match, settings: AppSettings) {
+  // Priced and raw matches give the same inputs: the model is always fitted
+  // to the quoted three-way hockey prices
+  const quoted = match.regulationH2h ? { ...match, h2h: match.regulationH2h } : match
+  const modelMarkets = selectModelMarkets(quoted, settings.simulationPrices, settings.marginMethod)
+  return sportScoreProbabilities(match, modelMarkets, { marginMethod: settings.marginMethod })
 }
 
-interface Match {
-  id: string
-  league: string
-  homeTeam: string
-  awayTeam: string
-  time: string
-  h2h?: MarketOdds
-  spread?: SpreadOdds
-  totals?: TotalsOdds
-  bothTeamsToScore?: {
-    yes: number
-    no: number
-  }
-  correctScore?: {
-    scores: Array<{ score: string, odds: number }>
+/**
+ * A match with its missing markets generated from its score model; quoted
+ * prices stay on display, except that ice hockey is always offered two-way
+ */
+function priceMatch(match: Match, settings: AppSettings): Match {
+  if (!match.h2h) return match
+  const modelMarkets = selectModelMarkets(match, settings.simulationPrices, settings.marginMethod)
+  const generated = generateSportMarkets(match, modelMarkets, { marginMethod: settings.marginMethod, margins: settings.marketMargins })
+  const regulationH2h = match.sport === 'icehockey' && match.h2h.draw ? match.h2h : undefined
+  return {
+    ...match,
+    ...generated,
+    h2h: match.h2h,
+    ...(regulationH2h ? {
+      h2h: toOvertimeMoneyline(regulationH2h, settings.marginMethod),
+      regulationH2h,
+      // No bookmaker quoted the two-way prices
+      bestPriceSources: { ...match.bestPriceSources, h2h: undefined }
+    } : {}),
+    totals: match.totals || generated.totals,
+    bothTeamsToScore: match.bothTeamsToScore || generated.bothTeamsToScore,
+    drawNoBet: match.drawNoBet || generated.drawNoBet,
+    alternateTotals: mergeAlternateTotals(match.alternateTotals, generated.alternateTotals)
   }
 }
 
-interface League {
-  key: string
-  title: string
-}
-
-interface CachedData {
-  data: Match[]
-  fetchedAt: number
-  region: string
-}
-
 interface PlayerStats {
   user_id: string
   total_simulations: number
@@ -125,6 +150,12 @@ interface SimulationResult {
   timestamp?: string
   selections: Selection[]
   total_odds?: number
+  /** Simulated final tables for outright slips, winner first */
+  standings?: Array<{ competition: string, standings: string[] }>
+  /** Lines won for system bets */
+  system?: { label: string, linesWon: number, lines: number }
+  /** Request and outcome of a match trial, to replay it */
+  replay?: SimulationReplay
 }
 
 interface BetHistory {
@@ -149,24 +180,100 @@ interface BetHistory {
   created_at: string
 }
 
-function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-    return localStorage.getItem('isAuthenticated') === 'true'
-  })
-  const [userId, setUserId] = useState(() => {
-    return localStorage.getItem('userId') || ''
-  })
-  const [balance, setBalance] = useState(() => {
-    const stored = localStorage.getItem('balance')
-    return stored ? parseFloat(stored) : 50000
+function getSelectionScore(result: SimulationResult, sel: Selection) {
+  const [homeTeam, awayTeam] = sel.match.split(' vs ')
+  if (result.matches && result.matches.length > 0) {
+    const matchResult = result.matches.find(m => m.home_team === homeTeam && m.away_team === awayTeam)
+    return matchResult ? { home: matchResult.home_score, away: matchResult.away_score } : null
+  }
+  if (result.final_score) {
+    return { home: result.final_score[homeTeam] || 0, away: result.final_score[awayTeam] || 0 }
+  }
+  return null
+}
+
+/**
+ * Score distributions a trial was run with, by match id, from its replay request
+ */
+function getTrialProbabilities(result: SimulationResult): Record<string, ScoreProbability[]> {
+  const replay = result.replay
+  if (!replay) return {}
+  if (replay.path === '/api/simulate') {
+    const request = replay.request as SimulationRequest<'/api/simulate'>
+    return Object.fromEntries(result.selections.map(sel => [sel.matchId, request.score_probabilities]))
+  }
+  const request = replay.request as SimulationRequest<'/api/simulate-multi'>
+  return Object.fromEntries(result.selections.flatMap(sel => {
+    const [homeTeam, awayTeam] = sel.match.split(' vs ')
+    const match = request.matches.find(m => m.home_team === homeTeam && m.away_team === awayTeam)
+    return match ? [[sel.matchId, match.score_probabilities]] : []
+  }))
+}
+
+/**
+ * A trial in the form the analytics dashboard aggregates
+ */
+function toTrialSummary(result: SimulationResult): TrialSummary {
+  const probabilities = getTrialProbabilities(result)
+  const matches: TrialSummary['matches'] = {}
+  result.selections.forEach(sel => {
+    const score = sel.market === 'outright' ? null : getSelectionScore(result, sel)
+    if (score) matches[sel.matchId] = { label: sel.match, ...score, probabilities: probabilities[sel.matchId] }
   })
+  return {
+    stake: result.total_stake ?? result.stake ?? 0,
+    payout: result.total_payout ?? result.actual_payout ?? 0,
+    legs: result.selections.map((selection, idx) => ({ selection, won: !!result.bet_results?.[idx]?.won })),
+    matches,
+    expectedReturn: result.system ? undefined : getExpectedReturn(result.selections, probabilities)
+  }
+}
+
+function App() {
+  const [session, setSession] = useState<AuthSession | null>(() => loadSession())
+  const isAuthenticated = session !== null
+  const userId = session?.userId || ''
   const [betSlip, setBetSlip] = useState<Selection[]>([])
   const [stake, setStake] = useState(100)
   const [simulations, setSimulations] = useState(1)
+  const [simulationControls, setSimulationControls] = useState<SimulationControls>(DEFAULT_SIMULATION_CONTROLS)
+  // Volatility and, for admins, target RTP sent with every simulation request
+  const simulationParameters = getSimulationParameters(simulationControls, !!session?.isAdmin)
+  const [ledger, setLedger] = useState<LedgerEntry[]>([])
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  // The balance is whatever the signed-in user's ledger adds up to
+  const balances = useMemo(() => getWalletBalances(ledger), [ledger])
+  const balance = balances.total
+  // Kept apart from the ledger so the wallet can check the two agree
+  const [storedBalance, setStoredBalance] = useState<number | null>(null)
+  /** Cash-out offer per pending bet; null while it can't be priced */
+  const [cashOutOffers, setCashOutOffers] = useState<Record<string, number | null>>({})
+  const latestScoresRef = useRef<Record<string, MatchScore>>({})
+  /** Pending bets with a match whose result the scores feed never gave */
+  const [reviewBetIds, setReviewBetIds] = useState<Set<string>>(new Set())
+  const closedBetIdsRef = useRef(new Set<string>())
+  // Only one scores check runs at a time, so a bet can't be settled twice
+  const isCheckingResultsRef = useRef(false)
+  const [showWallet, setShowWallet] = useState(false)
+  const [responsibleGambling, setResponsibleGambling] = useState<ResponsibleGamblingSettings>(DEFAULT_RESPONSIBLE_GAMBLING_SETTINGS)
+  const [showResponsibleGambling, setShowResponsibleGambling] = useState(false)
+  const playStartedAtRef = useRef(Date.now())
+  const [systemBet, setSystemBet] = useState<SystemBet>({ type: 'accumulator' })
+  const [betSlipTab, setBetSlipTab] = useState<BetSlipTab>('multiple')
+  // Stakes set on individual singles; the others use `stake`
+  const [singleStakes, setSingleStakes] = useState<Record<string, number>>({})
   const [isSimulating, setIsSimulating] = useState(false)
+  const [simulationProgress, setSimulationProgress] = useState<TrialProgress | null>(null)
+  // Failed or cancelled trials of the last batch, shown with its results
+  const [simulationSummary, setSimulationSummary] = useState<string | null>(null)
+  const simulationAbortRef = useRef<AbortController | null>(null)
   const [isSimMode, setIsSimMode] = useState(true)
   const [pendingBets, setPendingBets] = useState<PendingBet[]>([])
+  // Latest pending bets, for checks that await the network before settling
+  const pendingBetsRef = useRef(pendingBets)
+  pendingBetsRef.current = pendingBets
   const [matches, setMatches] = useState<Match[]>([])
+  const [outrights, setOutrights] = useState<Outright[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [lastFetch, setLastFetch] = useState<number>(0)
@@ -176,88 +283,321 @@ function App() {
   const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null)
   const [simulationResults, setSimulationResults] = useState<SimulationResult[]>([])
   const [showResults, setShowResults] = useState(false)
+  const [resultsView, setResultsView] = useState<'analytics' | 'trials'>('analytics')
   const [betHistory, setBetHistory] = useState<BetHistory[]>([])
   const [showBetHistory, setShowBetHistory] = useState(false)
   const [betSlipError, setBetSlipError] = useState<string>('')
   const [cache, setCache] = useState<Record<string, CachedData>>(() => {
     try {
-      return JSON.parse(localStorage.getItem('oddsCache') || '{}')
+      const stored: Record<string, CachedData> = JSON.parse(localStorage.getItem('oddsCache') || '{}')
+      // Entries from before the cache was keyed on the request shape are dropped
+      return Object.fromEntries(Object.entries(stored).filter(([, entry]) => entry.request))
     } catch {
       return {}
     }
   })
   const [supportedMarkets, setSupportedMarkets] = useState<SupportedMarket[]>([])
   const [isBetslipExpanded, setIsBetslipExpanded] = useState(false)
+  const [settings, setSettings] = useState<AppSettings>(loadSettings)
+  const [showSettings, setShowSettings] = useState(false)
+
+  // Generated markets are derived at render time so they always use the
+  // current margin-removal method and price source, matching what the
+  // simulator is sent
+  const activeLeague = leagues.find(league => league.key === activeLeagueKey)
+
+  const pricedMatches = useMemo(
+    () => matches.map(match => priceMatch(match, settings)),
+    [matches, settings]
+  )
 
+  // Bookmakers seen in any cached response, offered in the allow-list
+  const knownBookmakers = useMemo(() => {
+    const titles = new Map<string, string>()
+    Object.values(cache).forEach(entry => entry.data.forEach(match =>
+      match.bookmakers?.forEach(bookmaker => titles.set(bookmaker.key, bookmaker.title))
+    ))
+    return Array.from(titles, ([key, title]) => ({ key, title }))
+      .sort((a, b) => a.title.localeCompare(b.title))
+  }, [cache])
+
+  const betSlipByMatch = useMemo(() => betSlip.reduce((acc, sel) => {
+    acc[sel.matchId] = [...(acc[sel.matchId] || []), sel]
+    return acc
+  }, {} as Record<string, Selection[]>), [betSlip])
+
+  // Same-game multi price for each match with more than one selection
+  const sameGameMultis = useMemo(() => {
+    const knownMatches = [...matches, ...Object.values(cache).flatMap(entry => entry.data)]
+    const prices: Record<string, SameGameMultiPrice> = {}
+    Object.entries(betSlipByMatch).forEach(([matchId, selections]) => {
+      if (selections.length < 2) return
+      const match = knownMatches.find(m => m.id === matchId)
+      if (match?.h2h) prices[matchId] = priceSameGameMulti(selections, matchScoreProbabilities(match, settings))
+    })
+    return prices
+  }, [betSlipByMatch, matches, cache, settings])
+
+  // Latest price of each slip selection in the loaded odds, newest fetch first
+  const latestSlipOdds = useMemo(() => {
+    const entries = Object.values(cache).sort((a, b) => b.fetchedAt - a.fetchedAt)
+    const knownMatches = [...matches, ...entries.flatMap(entry => entry.data)]
+    const knownOutrights = [...outrights, ...entries.flatMap(entry => entry.outrights || [])]
+    const latest: Record<string, number | undefined> = {}
+    Object.entries(betSlipByMatch).forEach(([matchId, selections]) => {
+      const match = knownMatches.find(m => m.id === matchId)
+      const current = {
+        match: match && priceMatch(match, settings),
+        outright: knownOutrights.find(o => o.id === matchId)
+      }
+      selections.forEach(sel => { latest[sel.id] = getLatestOdds(sel, current) })
+    })
+    return latest
+  }, [betSlipByMatch, matches, outrights, cache, settings])
+
+  // Price changes the odds change policy doesn't take automatically
+  const pendingOddsChanges = betSlip.filter(sel => {
+    const latest = latestSlipOdds[sel.id]
+    return latest !== undefined && hasOddsChanged(sel.odds, latest)
+  })
+  const hasPendingOddsChanges = pendingOddsChanges.length > 0
+
+  // System bet lines are built from one unit per match (at its same-game
+  // price) or outright
+  const slipUnits = useMemo(() => Object.entries(betSlipByMatch).map(([matchId, selections]) => {
+    const sameGamePrice = sameGameMultis[matchId]
+    return {
+      key: matchId,
+      odds: sameGamePrice?.valid ? sameGamePrice.odds : selections.reduce((acc, sel) => acc * sel.odds, 1)
+    }
+  }), [betSlipByMatch, sameGameMultis])
+
+  // Bets the slip no longer supports fall back to an accumulator
+  const requestedSystemBet = { ...systemBet, size: Math.min(systemBet.size || 2, slipUnits.length) }
+  const activeSystemBet: SystemBet = isSystemBetAvailable(requestedSystemBet, slipUnits.length)
+    ? requestedSystemBet
+    : { type: 'accumulator' }
+  const systemLines = buildSystemLines(slipUnits, activeSystemBet)
+  const isSystemBet = betSlipTab === 'multiple' && systemLines.length > 1
+  const getChangedOdds = (selection: Selection) =>
+    pendingOddsChanges.includes(selection) ? latestSlipOdds[selection.id] : undefined
+
+  const acceptOddsChanges = () => {
+    setBetSlip(betSlip.map(sel => pendingOddsChanges.includes(sel) ? acceptOddsChange(sel, latestSlipOdds[sel.id]!) : sel))
+  }
+
+  const hasInvalidSameGameMulti = betSlipTab === 'multiple' && Object.values(sameGameMultis).some(price => !price.valid)
+
+  // Restore the user's pending bets and rebuild their balance from the ledger
   useEffect(() => {
-    localStorage.setItem('balance', balance.toString())
-  }, [balance])
-
-  const handleLogin = (username: string) => {
-    const newUserId = username
-    setUserId(newUserId)
-    setIsAuthenticated(true)
-    localStorage.setItem('userId', newUserId)
-    localStorage.setItem('isAuthenticated', 'true')
-    
-    const storedBalance = localStorage.getItem(`balance_${newUserId}`)
-    const userBalance = storedBalance ? parseFloat(storedBalance) : 50000
-    setBalance(userBalance)
+    if (!isAuthenticated || !userId) return
+    let isCurrent = true
+
+    const restore = async () => {
+      // A user without a ledger yet opens it with the currency's starting balance
+      const walletCurrency = loadCurrency(userId)
+      await openLedger(userId, getStartingBalance(walletCurrency))
+      const entries = await loadLedger(userId)
+      const bets = await loadBets(userId)
+      if (!isCurrent) return
+
+      setLedger(entries)
+      // Wallets from before the stored balance start it from their ledger
+      let recorded = loadStoredBalance(userId)
+      if (recorded === undefined) {
+        recorded = ledgerBalance(entries)
+        saveStoredBalance(userId, recorded)
+      }
+      setStoredBalance(recorded)
+      setCurrency(walletCurrency)
+      setResponsibleGambling(loadResponsibleGamblingSettings(userId))
+      setSimulationControls(loadSimulationControls(userId))
+      playStartedAtRef.current = Date.now()
+      setPendingBets(bets.filter(bet => bet.status === 'pending'))
+    }
+
+    restore().catch(err => console.error('Failed to restore bets and ledger:', err))
+    return () => { isCurrent = false }
+  }, [isAuthenticated, userId])
+
+  useEffect(() => {
+    saveSettings(settings)
+  }, [settings])
+
+  useEffect(() => {
+    localStorage.setItem('oddsCache', JSON.stringify(cache))
+  }, [cache])
+
+  // Take the price changes the odds change policy accepts without asking
+  useEffect(() => {
+    setBetSlip(prev => {
+      let hasChanged = false
+      const next = prev.map(sel => {
+        const latest = latestSlipOdds[sel.id]
+        if (latest === undefined || !hasOddsChanged(sel.odds, latest) || !isAutoAccepted(settings.oddsChangePolicy, sel.odds, latest)) return sel
+        hasChanged = true
+        return acceptOddsChange(sel, latest)
+      })
+      return hasChanged ? next : prev
+    })
+  }, [latestSlipOdds, settings.oddsChangePolicy])
+
+  const startSession = (newSession: AuthSession) => {
+    saveSession(newSession)
+    setSession(newSession)
   }
 
-  const handleRegister = (username: string) => {
-    const newUserId = username
-    setUserId(newUserId)
-    setIsAuthenticated(true)
-    localStorage.setItem('userId', newUserId)
-    localStorage.setItem('isAuthenticated', 'true')
-    localStorage.setItem(`balance_${newUserId}`, '50000')
-    setBalance(50000)
+  const handleLogin = async (username: string, password: string) => {
+    startSession(await authProvider.login(username, password))
+  }
+
+  const handleRegister = async (username: string, password: string, walletCurrency: string) => {
+    const newSession = await authProvider.register(username, password)
+    // Set before the session starts, so the wallet opens in this currency
+    saveCurrency(newSession.userId, walletCurrency)
+    startSession(newSession)
   }
 
   const handleLogout = () => {
-    if (userId) {
-      localStorage.setItem(`balance_${userId}`, balance.toString())
-    }
-    setIsAuthenticated(false)
-    setUserId('')
-    localStorage.removeItem('isAuthenticated')
-    localStorage.removeItem('userId')
+    clearSession()
+    setSession(null)
+    // Pending bets stay in IndexedDB and are restored on the next login
     setBetSlip([])
     setPendingBets([])
+    setLedger([])
+    setStoredBalance(null)
+    setReviewBetIds(new Set())
     setSimulationResults([])
     setBetHistory([])
     setPlayerStats(null)
   }
 
-  const addToBetSlip = (match: Match, market: 'h2h' | 'spreads' | 'totals' | 'btts' | 'correct_score', side: 'home' | 'away' | 'draw' | 'over' | 'under' | 'yes' | 'no' | string, odds: number, point?: number) => {
+  // Sessions expire; check periodically and send the user back to login
+  const handleLogoutRef = useRef(handleLogout)
+  handleLogoutRef.current = handleLogout
+
+  useEffect(() => {
+    if (!session) return
+    const interval = setInterval(() => {
+      if (Date.now() < session.expiresAt) return
+      handleLogoutRef.current()
+      alert('Your session has expired. Please log in again.')
+    }, SESSION_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [session])
+
+  // Reality check: remind the user how long they've been playing
+  useEffect(() => {
+    const minutes = responsibleGambling.sessionReminderMinutes
+    if (!isAuthenticated || !minutes) return
+    const interval = setInterval(() => {
+      const played = Math.round((Date.now() - playStartedAtRef.current) / 60000)
+      alert(`You have been playing for ${played} minutes. Consider taking a break.`)
+    }, minutes * 60 * 1000)
+    return () => clearInterval(interval)
+  }, [isAuthenticated, responsibleGambling.sessionReminderMinutes])
+
+  const updateSimulationControls = (next: SimulationControls) => {
+    saveSimulationControls(userId, next)
+    setSimulationControls(next)
+  }
+
+  const updateResponsibleGambling = (next: ResponsibleGamblingSettings) => {
+    saveResponsibleGamblingSettings(userId, next)
+    setResponsibleGambling(next)
+  }
+
+  /**
+   * Why limits or a cooling-off/self-exclusion stop an action, applying any
+   * limit changes that have come into effect first
+   */
+  const getResponsibleGamblingError = (action: { stake?: number, deposit?: number }) => {
+    const current = applyDueLimitChanges(responsibleGambling)
+    if (current !== responsibleGambling) updateResponsibleGambling(current)
+    return getLimitViolation(current, ledger, action)
+  }
+
+  // Every balance change is a ledger entry, so the balance can be rebuilt from the ledger
+  const recordTransactions = (transactions: WalletTransaction[]) => {
+    if (transactions.length === 0) return
+    const newEntries = toLedgerEntries(userId, balances, transactions)
+    setLedger(prev => [...prev, ...newEntries])
+    setStoredBalance(addToStoredBalance(userId, ledgerBalance(newEntries)))
+    appendLedger(newEntries).catch(err => console.error('Failed to write ledger:', err))
+  }
+
+  const deposit = (amount: number) => {
+    const limitError = getResponsibleGamblingError({ deposit: amount })
+    if (limitError) {
+      alert(limitError)
+      return
+    }
+    recordTransactions(depositTransactions(amount, !ledger.some(entry => entry.type === 'deposit'), currency))
+  }
+
+  const withdraw = (amount: number) => {
+    recordTransactions([{ type: 'withdrawal', amount: -amount, fund: 'cash', description: 'Withdrawal' }])
+  }
+
+  const recordSimulation = (runs: number, netProfit: number, staked: number) => {
+    recordTransactions([{ type: 'simulation', amount: netProfit, staked, description: `${runs} simulation${runs === 1 ? '' : 's'}` }])
+  }
+
+  const persistBets = (bets: PendingBet[], status: BetStatus, payouts: Record<string, number> = {}) => {
+    const settledAt = status === 'pending' ? undefined : new Date()
+    const stored: StoredBet[] = bets.map(bet => ({ ...bet, userId, status, payout: payouts[bet.id], settledAt }))
+    saveBets(stored).catch(err => console.error('Failed to save bets:', err))
+  }
+
+  // Pay out settled bets and move them from pending to the stored history;
+  // bets already settled or cashed out are skipped. Returns the ones recorded
+  const recordSettlements = (candidates: Array<{ bet: PendingBet, payout: number }>) => {
+    const settlements = candidates.filter(({ bet }) => !closedBetIdsRef.current.has(bet.id))
+    if (settlements.length === 0) return settlements
+    const settledIds = new Set(settlements.map(({ bet }) => bet.id))
+    settledIds.forEach(id => closedBetIdsRef.current.add(id))
+    recordTransactions(settlements.filter(({ payout }) => payout > 0).map(({ bet, payout }) => ({
+      type: 'return', amount: payout, betId: bet.id, description: `Return: ${describeBet(bet)}`
+    })))
+    persistBets(settlements.map(({ bet }) => bet), 'settled', Object.fromEntries(settlements.map(({ bet, payout }) => [bet.id, payout])))
+    setPendingBets(prev => prev.filter(bet => !settledIds.has(bet.id)))
+    return settlements
+  }
+
+  const describeBet = (bet: PendingBet) => bet.systemBet?.label || bet.selections.map(sel => sel.selection).join(' + ')
+
+  const addToBetSlip = (match: Match, market: BetMarket, side: 'home' | 'away' | 'draw' | 'over' | 'under' | 'yes' | 'no' | string, odds: number, point?: number) => {
     setBetSlipError('')
-    
-    // Check if there's already any selection for this match (only one market per match allowed)
-    const existingSelectionForMatch = betSlip.find(
-      s => s.matchId === match.id
-    )
-    
-    if (existingSelectionForMatch) {
-      setBetSlipError(`You can only select one market per match. Remove "${existingSelectionForMatch.selection}" from this match first.`)
+
+    if (betSlip.some(s => s.market === 'outright')) {
+      setBetSlipError('Outrights can\'t be combined with match selections. Remove the outright selections first.')
       setTimeout(() => setBetSlipError(''), 5000)
       return
     }
-    
+
     let selectionText = ''
     
     if (market === 'h2h') {
       selectionText = side === 'home' ? match.homeTeam : side === 'draw' ? 'Draw' : match.awayTeam
     } else if (market === 'spreads') {
       const displayPoint = side === 'home' ? point! : -point!
-      const sign = displayPoint >= 0 ? '+' : ''
-      selectionText = `${side === 'home' ? match.homeTeam : match.awayTeam} ${sign}${displayPoint.toFixed(1)}`
+      selectionText = `${side === 'home' ? match.homeTeam : match.awayTeam} ${formatHandicap(displayPoint)}`
     } else if (market === 'totals') {
       selectionText = `${side === 'over' ? 'Over' : 'Under'} ${point}`
     } else if (market === 'btts') {
       selectionText = side === 'yes' ? 'Both Teams To Score - Yes' : 'Both Teams To Score - No'
     } else if (market === 'correct_score') {
       selectionText = `Correct Score: ${side}`
+    } else if (market === 'double_chance') {
+      selectionText = side === '1X'
+        ? `${match.homeTeam} or Draw`
+        : side === 'X2' ? `Draw or ${match.awayTeam}` : `${match.homeTeam} or ${match.awayTeam}`
+    } else if (market === 'draw_no_bet') {
+      selectionText = `${side === 'home' ? match.homeTeam : match.awayTeam} (Draw No Bet)`
+    } else if (market === 'winning_margin') {
+      selectionText = `Winning Margin: ${getWinningMarginLabel(side, match.homeTeam, match.awayTeam)}`
+    } else if (market === 'odd_even') {
+      selectionText = `Total Goals ${side === 'odd' ? 'Odd' : 'Even'}`
     }
     
     const newSelection: Selection = {
@@ -268,17 +608,72 @@ function App() {
       odds: odds,
       market: market,
       side: side,
-      point: point
+      point: point,
+      bookmaker: getBestPriceSource(match, market, side, point),
+      sportKey: match.sportKey,
+      commenceTime: match.commenceTime
     }
 
     const exists = betSlip.find(s => s.id === newSelection.id)
     if (!exists) {
+      // A second selection on the same match makes a same-game multi
+      const sameGameLegs = [...betSlip.filter(s => s.matchId === match.id), newSelection]
+      if (betSlipTab === 'multiple' && sameGameLegs.length > 1) {
+        const sameGamePrice = priceSameGameMulti(sameGameLegs, matchScoreProbabilities(match, settings))
+        if (!sameGamePrice.valid) {
+          setBetSlipError(`Can't add to the same-game multi: ${sameGamePrice.reason}`)
+          setTimeout(() => setBetSlipError(''), 5000)
+          return
+        }
+      }
+
       setBetSlip([...betSlip, newSelection])
       // Auto-expand betslip on mobile when adding a bet
       setIsBetslipExpanded(true)
     }
   }
 
+  const addOutrightToBetSlip = (outright: Outright, participant: OutrightPrice) => {
+    setBetSlipError('')
+
+    if (betSlip.some(s => s.market !== 'outright')) {
+      setBetSlipError('Outrights can\'t be combined with match selections. Remove the match selections first.')
+      setTimeout(() => setBetSlipError(''), 5000)
+      return
+    }
+
+    // Only one participant can win, so one selection per competition
+    const existingSelection = betSlip.find(s => s.matchId === outright.id)
+    if (existingSelection) {
+      setBetSlipError(`You can only select one winner per competition. Remove "${existingSelection.selection}" first.`)
+      setTimeout(() => setBetSlipError(''), 5000)
+      return
+    }
+
+    setBetSlip([...betSlip, {
+      id: `${outright.id}-outright-${participant.name}`,
+      matchId: outright.id,
+      match: outright.competition,
+      selection: `${participant.name} (Outright Winner)`,
+      odds: participant.odds,
+      market: 'outright',
+      side: participant.name,
+      bookmaker: participant.bookmaker,
+      sportKey: outright.sportKey
+    }])
+    setIsBetslipExpanded(true)
+  }
+
+  const getBestPriceSource = (match: Match, market: BetMarket, side: string, point?: number) => {
+    const sources = match.bestPriceSources
+    if (market === 'h2h') return sources?.h2h?.[side as 'home' | 'draw' | 'away']
+    if (market === 'spreads' && point === match.spread?.point) return sources?.spread?.[side as 'home' | 'away']
+    if (market === 'totals' && point === match.totals?.point) return sources?.totals?.[side as 'over' | 'under']
+    if (market === 'btts') return sources?.bothTeamsToScore?.[side as 'yes' | 'no']
+    if (market === 'draw_no_bet') return sources?.drawNoBet?.[side as 'home' | 'away']
+    return undefined
+  }
+
   const removeFromBetSlip = (id: string) => {
     const newBetSlip = betSlip.filter(s => s.id !== id)
     setBetSlip(newBetSlip)
@@ -290,16 +685,184 @@ function App() {
 
   const calculateTotalOdds = () => {
     if (betSlip.length === 0) return 0
-    return betSlip.reduce((acc, sel) => acc * sel.odds, 1)
+    // Legs on different matches multiply; legs on one match use the same-game price
+    return slipUnits.reduce((acc, unit) => acc * unit.odds, 1)
+  }
+
+  const getSingleStake = (selection: Selection) => singleStakes[selection.id] ?? stake
+
+  // The stake input is per line, so system bets cost stake × lines
+  const calculateTotalStake = () => {
+    if (betSlipTab === 'singles') return betSlip.reduce((sum, sel) => sum + getSingleStake(sel), 0)
+    return stake * Math.max(1, systemLines.length)
   }
 
+  // Return if every line wins
   const calculatePotentialWin = () => {
-    return stake * calculateTotalOdds()
+    if (betSlipTab === 'singles') return betSlip.reduce((sum, sel) => sum + getSingleStake(sel) * sel.odds, 0)
+    if (!isSystemBet) return stake * calculateTotalOdds()
+    return systemLines.reduce((sum, line) => sum + stake * line.odds, 0)
+  }
+
+  // First row of the slip summary: total odds, or the bet type and its size
+  const getSlipSummary = () => {
+    if (betSlipTab === 'singles') return { label: 'Singles', value: `${betSlip.length} bet${betSlip.length === 1 ? '' : 's'}` }
+    if (isSystemBet) return { label: getSystemBetLabel(activeSystemBet, slipUnits.length), value: `${systemLines.length} lines` }
+    return { label: 'Total Odds', value: calculateTotalOdds().toFixed(2) }
+  }
+
+  // In the singles tab the main stake input stakes every selection
+  const applyStake = (amount: number) => {
+    setStake(amount)
+    if (betSlipTab === 'singles') setSingleStakes({})
+  }
+
+  const systemResult = (linesWon: boolean[]) => ({
+    label: getSystemBetLabel(activeSystemBet, slipUnits.length),
+    linesWon: linesWon.filter(Boolean).length,
+    lines: linesWon.length
+  })
+
+  // Simulation API request identifying the user through their session token
+  const fetchSimulationApi = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${SIMULATION_API_URL}${path}`, {
+      ...init,
+      headers: { ...init.headers, ...(session ? authHeaders(session) : {}) }
+    })
+    if (response.status === 401 && session) {
+      handleLogout()
+      alert('Your session is no longer valid. Please log in again.')
+    }
+    return response
+  }
+
+  // One trial on the simulation API; a response that isn't OK fails the
+  // trial, and a rejected session cancels the rest of the batch
+  const postSimulation = async (path: SimulationPath, body: object, controller: AbortController) => {
+    const response = await fetchSimulationApi(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    })
+    if (response.status === 401) controller.abort()
+    if (!response.ok) throw new Error(`Simulation API error: ${response.status}`)
+    return response.json()
+  }
+
+  // Runs a batch of trials on the selected engine with progress and
+  // cancellation; returns the results of the trials that succeeded, each
+  // match trial with the request needed to replay it
+  const runSimulationTrials = async (
+    total: number,
+    runTrial: (index: number, seed: number, simulate: SimulateTrial) => Promise<SimulationResult>
+  ) => {
+    const controller = new AbortController()
+    const seedBase = getTrialSeed(settings.fixedSeed, 0)
+    // Fixed-seed runs reuse seeds, so replays are told apart by batch and trial
+    const batchId = String(Date.now())
+    let hasFallenBack = false
+    // Requests the API answered; the rest ran on the local engine
+    const remoteRequests = new WeakSet<object>()
+    const engine = createSimulationEngine(
+      settings.simulationEngine,
+      async (path, request) => {
+        const response = await postSimulation(path, request, controller)
+        remoteRequests.add(request)
+        return response
+      },
+      () => { hasFallenBack = true }
+    )
+
+    const runTrialWithReplay = async (index: number): Promise<SimulationResult> => {
+      const seed = seedBase + index
+      let replay: SimulationReplay | undefined
+      const simulate: SimulateTrial = async (path, request) => {
+        const response = await engine.simulate(path, request, controller.signal)
+        replay = {
+          id: `${batchId}-${index}`,
+          userId,
+          seed,
+          engine: remoteRequests.has(request) ? 'remote' : 'local',
+          path,
+          request,
+          outcome: getReplayOutcome(path, response),
+          createdAt: new Date().toISOString()
+        }
+        return response
+      }
+      const result = await runTrial(index, seed, simulate)
+      return replay ? { ...result, replay } : result
+    }
+
+    simulationAbortRef.current = controller
+    setSimulationProgress({ completed: 0, failed: 0, total })
+    try {
+      const batch = await runTrials(total, runTrialWithReplay, {
+        signal: controller.signal,
+        onProgress: setSimulationProgress
+      })
+      const replays = batch.results.flatMap(result => result.replay ? [result.replay] : [])
+      if (replays.length > 0) {
+        saveReplayBatch(toReplayBatch(batchId, userId, replays)).catch(err => console.error('Failed to save replays:', err))
+      }
+      const summary = [
+        hasFallenBack && 'the simulation API could not be reached, so trials ran in the browser',
+        describeTrialBatch(batch)
+      ].filter(Boolean).join('; ') || null
+      setSimulationSummary(summary)
+      if (summary && batch.results.length === 0) {
+        setBetSlipError(`No simulations completed: ${summary}.`)
+        setTimeout(() => setBetSlipError(''), 5000)
+      }
+      return batch.results
+    } finally {
+      simulationAbortRef.current = null
+      setSimulationProgress(null)
+    }
+  }
+
+  const cancelSimulation = () => simulationAbortRef.current?.abort()
+
+  // Run a trial again with its original request and engine, and check the
+  // outcome is the same. API replays are flagged with `replay: true` so they
+  // aren't recorded as new simulations in the user's stats and history
+  const replaySimulation = async (replay: SimulationReplay) => {
+    const controller = new AbortController()
+    try {
+      const response = replay.engine === 'local'
+        ? await createLocalSimulationEngine().simulate(replay.path, replay.request, controller.signal)
+        : await postSimulation(replay.path, { ...replay.request, replay: true }, controller) as SimulationResponse<typeof replay.path>
+      const outcome = getReplayOutcome(replay.path, response)
+      const differences = compareReplayOutcomes(replay.outcome, outcome)
+      alert(differences.length === 0
+        ? `Replay matched (seed ${replay.seed}).\n\nScore: ${outcome.scores.join(', ')}\nPayout: ${formatMoney(outcome.payout, currency)}`
+        : `Replay differed (seed ${replay.seed}):\n\n${differences.join('\n')}`)
+    } catch (err) {
+      console.error('Replay failed:', err)
+      alert(`Replay failed: ${err instanceof Error ? err.message : err}`)
+    }
   }
 
+  const replayHistoryEntry = async (entry: BetHistory) => {
+    const batches = await loadReplayBatches(userId).catch(() => [])
+    // Fixed-seed runs reuse seeds, so take the most recent trial of the same slip
+    const replay = batches.flatMap(getBatchReplays).reverse().find(candidate => isReplayOfSlip(candidate, entry))
+    if (!replay) {
+      alert('This simulation can\'t be replayed: its request was not kept on this device.')
+      return
+    }
+    await replaySimulation(replay)
+  }
+
+  const simulatingLabel = simulationProgress
+    ? `Simulating ${simulationProgress.completed + simulationProgress.failed}/${simulationProgress.total}...`
+    : 'Simulating...'
+
   const fetchPlayerStats = async () => {
+    if (!session) return
     try {
-      const response = await fetch(`${SIMULATION_API_URL}/api/players/${userId}/stats`)
+      const response = await fetchSimulationApi(`/api/players/${userId}/stats`)
       if (response.ok) {
         const stats = await response.json()
         setPlayerStats(stats)
@@ -314,7 +877,7 @@ function App() {
 
   const fetchBetHistory = async () => {
     try {
-      const response = await fetch(`${SIMULATION_API_URL}/api/history?user_id=${userId}&limit=100`)
+      const response = await fetchSimulationApi('/api/history?limit=100')
       if (response.ok) {
         const data = await response.json()
         setBetHistory(data.simulations || [])
@@ -324,28 +887,173 @@ function App() {
     }
   }
 
+  const getKnownOutrights = () => [...outrights, ...Object.values(cache).flatMap(entry => entry.outrights || [])]
+
+  // Per-selection results, standings and slip details of a season simulation
+  const toOutrightResult = (season: SeasonSimulation, selections: Selection[], knownOutrights: Outright[]) => ({
+    bet_results: selections.map((sel, idx) => ({
+      market: 'outright',
+      outcome: sel.side,
+      odds: sel.odds,
+      won: season.won[idx],
+      outcome_occurred: season.won[idx],
+      explanation: `Winner: ${season.standings[sel.matchId][0]}`
+    })),
+    standings: Object.entries(season.standings).map(([outrightId, standings]) => ({
+      competition: knownOutrights.find(o => o.id === outrightId)?.competition || outrightId,
+      standings
+    })),
+    selections: [...selections],
+    timestamp: new Date().toISOString()
+  })
+
+  // Singles tab: every selection is its own bet, placed as its own pending
+  // bet or simulated on its own
+  const placeSingles = async () => {
+    const singles = betSlip.filter(sel => getSingleStake(sel) > 0)
+    const totalStake = singles.reduce((sum, sel) => sum + getSingleStake(sel), 0)
+
+    if (!isSimMode) {
+      const placedAt = new Date()
+      const newBets: PendingBet[] = singles.map((sel, idx) => ({
+        id: `${placedAt.getTime()}-${idx}`,
+        selections: [sel],
+        stake: getSingleStake(sel),
+        potentialWin: getSingleStake(sel) * sel.odds,
+        placedAt,
+        unitOdds: { [sel.matchId]: sel.odds }
+      }))
+
+      recordTransactions(newBets.map(bet => ({ type: 'stake', amount: -bet.stake, betId: bet.id, description: `Stake: ${describeBet(bet)}` })))
+      persistBets(newBets, 'pending')
+      setPendingBets([...pendingBets, ...newBets])
+      setBetSlip([])
+      setSingleStakes({})
+      setIsSimulating(false)
+
+      alert(`${newBets.length} Single${newBets.length === 1 ? '' : 's'} Placed!\n\nTotal Stake: ${formatMoney(totalStake, currency)}\nPotential Win: ${formatMoney(calculatePotentialWin(), currency)}\n\nStake deducted from balance.\nWaiting for match results...\n\nNew Balance: ${formatMoney(balance - totalStake, currency)}`)
+      return
+    }
+
+    const knownOutrights = getKnownOutrights()
+    // Singles on matches without odds to price them are left out
+    const simulatable = singles.filter(sel => sel.market === 'outright' || pricedMatches.find(m => m.id === sel.matchId)?.h2h)
+
+    // Trials run every simulation of the first single, then the next single's
+    const results = await runSimulationTrials(simulatable.length * simulations, async (index, seed, simulate) => {
+      const sel = simulatable[Math.floor(index / simulations)]
+      const selectionStake = getSingleStake(sel)
+
+      if (sel.market === 'outright') {
+        const season = simulateOutrightSlip(knownOutrights, [{ outrightId: sel.matchId, participant: sel.side, odds: sel.odds }], selectionStake, seed, settings.marginMethod)
+        return {
+          ...toOutrightResult(season, [sel], knownOutrights),
+          bet_slip_won: season.slipWon,
+          total_stake: selectionStake,
+          total_payout: season.payout,
+          total_profit: season.payout - selectionStake,
+          total_odds: sel.odds
+        }
+      }
+
+      const match = pricedMatches.find(m => m.id === sel.matchId)!
+      const apiMarket = convertMarketToAPI(sel.market, sel.side, sel.point)
+      const result = await simulate('/api/simulate', {
+        user_id: userId,
+        sport: match.sport || 'soccer',
+        home_team: match.homeTeam,
+        away_team: match.awayTeam,
+        score_probabilities: matchScoreProbabilities(match, settings),
+        bet_slip: [{ market: apiMarket.market, outcome: apiMarket.outcome, odds: sel.odds, stake: selectionStake }],
+        ...simulationParameters,
+        seed
+      })
+      return {
+        ...result,
+        selections: [sel],
+        timestamp: new Date().toISOString()
+      }
+    })
+
+    const netProfit = results.reduce((sum, r) => sum + (r.total_payout || 0) - (r.total_stake || 0), 0)
+    recordSimulation(results.length, netProfit, results.reduce((sum, r) => sum + (r.total_stake || 0), 0))
+    setSimulationResults(results)
+    setShowResults(true)
+    setBetSlip([])
+    setSingleStakes({})
+    setIsSimulating(false)
+
+    await fetchPlayerStats()
+    await fetchBetHistory()
+  }
+
   const runSimulation = async () => {
-    if (betSlip.length === 0 || stake <= 0) return
+    if (betSlip.length === 0 || calculateTotalStake() <= 0) return
+    if (hasPendingOddsChanges) {
+      setBetSlipError('Prices have changed. Accept the new odds to place this bet.')
+      setTimeout(() => setBetSlipError(''), 5000)
+      return
+    }
+    if (!isSimMode && calculateTotalStake() > balance) {
+      setBetSlipError(`Insufficient funds. Your balance is ${formatMoney(balance, currency)}.`)
+      setTimeout(() => setBetSlipError(''), 5000)
+      return
+    }
+    const limitError = getResponsibleGamblingError({ stake: isSimMode ? calculateTotalStake() * simulations : calculateTotalStake() })
+    if (limitError) {
+      setBetSlipError(limitError)
+      setTimeout(() => setBetSlipError(''), 5000)
+      return
+    }
 
     setIsSimulating(true)
 
+    if (betSlipTab === 'singles') {
+      await placeSingles()
+      return
+    }
+
     if (isSimMode) {
-      const matchesMap = matches.reduce((acc, m) => {
+      // Outrights are resolved by a season-level Monte Carlo in the browser
+      if (betSlip.every(s => s.market === 'outright')) {
+        const knownOutrights = getKnownOutrights()
+        const outrightSelections = betSlip.map(sel => ({ outrightId: sel.matchId, participant: sel.side, odds: sel.odds }))
+        const totalStake = calculateTotalStake()
+
+        const results = await runSimulationTrials(simulations, async (_index, seed) => {
+          const season = simulateOutrightSlip(knownOutrights, outrightSelections, stake, seed, settings.marginMethod)
+          const unitWon = Object.fromEntries(betSlip.map((sel, idx) => [sel.matchId, season.won[idx]]))
+          const settlement = settleSystemLines(systemLines, unitWon, stake)
+          return {
+            ...toOutrightResult(season, betSlip, knownOutrights),
+            bet_slip_won: isSystemBet ? settlement.payout > 0 : season.slipWon,
+            total_stake: totalStake,
+            total_payout: settlement.payout,
+            total_profit: settlement.payout - totalStake,
+            total_odds: isSystemBet ? undefined : calculateTotalOdds(),
+            system: isSystemBet ? systemResult(settlement.linesWon) : undefined
+          }
+        })
+
+        const netProfit = results.reduce((sum, r) => sum + (r.total_profit || 0), 0)
+        recordSimulation(results.length, netProfit, results.reduce((sum, r) => sum + (r.total_stake || 0), 0))
+        setSimulationResults(results)
+        setShowResults(true)
+        setBetSlip([])
+        setIsSimulating(false)
+        return
+      }
+
+      const matchesMap = pricedMatches.reduce((acc, m) => {
         acc[m.id] = m
         return acc
       }, {} as Record<string, Match>)
 
-      const matchGroups = betSlip.reduce((acc, sel) => {
-        if (!acc[sel.matchId]) {
-          acc[sel.matchId] = []
-        }
-        acc[sel.matchId].push(sel)
-        return acc
-      }, {} as Record<string, Selection[]>)
-
+      const matchGroups = betSlipByMatch
       const numMatches = Object.keys(matchGroups).length
 
-      if (numMatches === 1) {
+      // Same-game multis go through the multi endpoint so they settle as one slip
+      if (numMatches === 1 && betSlip.length === 1) {
         const matchId = Object.keys(matchGroups)[0]
         const match = matchesMap[matchId]
         const selections = matchGroups[matchId]
@@ -356,13 +1064,7 @@ function App() {
         }
 
         // Convert all markets to probabilities for simulation
-        const matchMarkets = {
-          h2h: match.h2h,
-          totals: match.totals,
-          bothTeamsToScore: match.bothTeamsToScore,
-          correctScore: match.correctScore
-        }
-        const scoreProbabilities = oddsToProbabilities(matchMarkets, supportedMarkets)
+        const scoreProbabilities = matchScoreProbabilities(match, settings)
 
         const betSlipData = selections.map(sel => {
           const apiMarket = convertMarketToAPI(sel.market, sel.side, sel.point)
@@ -374,44 +1076,30 @@ function App() {
         })
 
         const totalStake = stake
-        const results: SimulationResult[] = []
-
-        for (let i = 0; i < simulations; i++) {
-          try {
-            const response = await fetch(`${SIMULATION_API_URL}/api/simulate`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                user_id: userId,
-                home_team: match.homeTeam,
-                away_team: match.awayTeam,
-                score_probabilities: scoreProbabilities,
-                bet_slip: betSlipData.map(b => ({ ...b, stake: totalStake })),
-                volatility: 'medium',
-                seed: Date.now() + i
-              })
-            })
-
-            if (response.ok) {
-              const result = await response.json()
-              results.push({
-                ...result,
-                selections: [...betSlip],
-                timestamp: new Date().toISOString()
-              })
-            }
-          } catch (err) {
-            console.error('Simulation request failed:', err)
+
+        const results = await runSimulationTrials(simulations, async (_index, seed, simulate) => {
+          const result = await simulate('/api/simulate', {
+            user_id: userId,
+            sport: match.sport || 'soccer',
+            home_team: match.homeTeam,
+            away_team: match.awayTeam,
+            score_probabilities: scoreProbabilities,
+            bet_slip: betSlipData.map(b => ({ ...b, stake: totalStake })),
+            ...simulationParameters,
+            seed
+          })
+          return {
+            ...result,
+            selections: [...betSlip],
+            timestamp: new Date().toISOString()
           }
-        }
+        })
 
         const totalWinnings = results.reduce((sum, r) => sum + (r.total_payout || 0), 0)
         const totalStakeAmount = results.reduce((sum, r) => sum + (r.total_stake || 0), 0)
         const netProfit = totalWinnings - totalStakeAmount
 
-        setBalance(balance + netProfit)
+        recordSimulation(results.length, netProfit, totalStakeAmount)
         setSimulationResults(results)
         setShowResults(true)
         setBetSlip([])
@@ -424,16 +1112,11 @@ function App() {
           const match = matchesMap[matchId]
           if (!match || !match.h2h) return null
 
-          const matchMarkets = {
-            h2h: match.h2h,
-            totals: match.totals,
-            bothTeamsToScore: match.bothTeamsToScore,
-            correctScore: match.correctScore
-          }
-          const scoreProbabilities = oddsToProbabilities(matchMarkets, supportedMarkets)
+          const scoreProbabilities = matchScoreProbabilities(match, settings)
 
           return {
             match_id: `match_${index + 1}`,
+            sport: match.sport || 'soccer',
             home_team: match.homeTeam,
             away_team: match.awayTeam,
             score_probabilities: scoreProbabilities,
@@ -441,9 +1124,10 @@ function App() {
           }
         }).filter(m => m !== null)
 
-        const betSlipSelections = betSlip.map(sel => {
+        // bet_results come back in the order selections are sent
+        const sentSelections = betSlip.filter(sel => matchesData.some(m => m?.matchId === sel.matchId))
+        const betSlipSelections = sentSelections.map(sel => {
           const matchIndex = matchesData.findIndex(m => m?.matchId === sel.matchId)
-          if (matchIndex === -1) return null
 
           const apiMarket = convertMarketToAPI(sel.market, sel.side, sel.point)
           const market = apiMarket.market
@@ -457,50 +1141,53 @@ function App() {
             outcome,
             odds: sel.odds
           }
-        }).filter(s => s !== null)
-
-        const results: SimulationResult[] = []
-
-        for (let i = 0; i < simulations; i++) {
-          try {
-            const response = await fetch(`${SIMULATION_API_URL}/api/simulate-multi`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                user_id: userId,
-                matches: matchesData.map(m => ({
-                  match_id: m.match_id,
-                  home_team: m.home_team,
-                  away_team: m.away_team,
-                  score_probabilities: m.score_probabilities
-                })),
-                bet_slip: betSlipSelections,
-                stake: stake,
-                volatility: 'medium',
-                seed: Date.now() + i
-              })
-            })
-
-            if (response.ok) {
-              const result = await response.json()
-              results.push({
-                ...result,
-                selections: [...betSlip],
-                timestamp: new Date().toISOString()
-              })
-            }
-          } catch (err) {
-            console.error('Multi-match simulation request failed:', err)
+        })
+
+        // The API pays one accumulator at the multiplied leg odds; same-game
+        // multis and system bets are settled here from each leg's result
+        const settleLocally = isSystemBet || Object.values(matchGroups).some(selections => selections.length > 1)
+        const totalStake = calculateTotalStake()
+
+        const results = await runSimulationTrials(simulations, async (_index, seed, simulate) => {
+          const result = await simulate('/api/simulate-multi', {
+            user_id: userId,
+            matches: matchesData.map(m => ({
+              match_id: m.match_id,
+              sport: m.sport,
+              home_team: m.home_team,
+              away_team: m.away_team,
+              score_probabilities: m.score_probabilities
+            })),
+            bet_slip: betSlipSelections,
+            stake: totalStake,
+            ...simulationParameters,
+            seed
+          })
+          const unitWon: Record<string, boolean> = {}
+          sentSelections.forEach((sel, idx) => {
+            unitWon[sel.matchId] = (unitWon[sel.matchId] ?? true) && !!result.bet_results[idx]?.won
+          })
+          const settlement = settleSystemLines(systemLines, unitWon, stake)
+          return {
+            ...result,
+            ...(settleLocally ? {
+              bet_slip_won: isSystemBet ? settlement.payout > 0 : result.bet_slip_won,
+              stake: totalStake,
+              actual_payout: settlement.payout,
+              profit: settlement.payout - totalStake,
+              total_odds: isSystemBet ? undefined : calculateTotalOdds(),
+              system: isSystemBet ? systemResult(settlement.linesWon) : undefined
+            } : {}),
+            selections: [...betSlip],
+            timestamp: new Date().toISOString()
           }
-        }
+        })
 
         const totalWinnings = results.reduce((sum, r) => sum + (r.actual_payout || 0), 0)
         const totalStakeAmount = results.reduce((sum, r) => sum + (r.stake || 0), 0)
         const netProfit = totalWinnings - totalStakeAmount
 
-        setBalance(balance + netProfit)
+        recordSimulation(results.length, netProfit, totalStakeAmount)
         setSimulationResults(results)
         setShowResults(true)
         setBetSlip([])
@@ -510,216 +1197,297 @@ function App() {
         await fetchBetHistory()
       }
     } else {
+      const totalStake = calculateTotalStake()
       const newBet: PendingBet = {
         id: Date.now().toString(),
         selections: [...betSlip],
-        stake: stake,
+        stake: totalStake,
         potentialWin: calculatePotentialWin(),
-        placedAt: new Date()
+        placedAt: new Date(),
+        unitOdds: Object.fromEntries(slipUnits.map(unit => [unit.key, unit.odds])),
+        systemBet: isSystemBet ? {
+          label: getSystemBetLabel(activeSystemBet, slipUnits.length),
+          lines: systemLines,
+          stakePerLine: stake,
+          unitWon: {}
+        } : undefined
       }
       
-      setBalance(balance - stake)
+      recordTransactions([{ type: 'stake', amount: -totalStake, betId: newBet.id, description: `Stake: ${describeBet(newBet)}` }])
+      persistBets([newBet], 'pending')
       setPendingBets([...pendingBets, newBet])
       setBetSlip([])
       setIsSimulating(false)
       
-      alert(`Bet Placed!\n\nYour bet has been placed successfully.\nStake: KES ${stake.toFixed(2)}\nPotential Win: KES ${calculatePotentialWin().toFixed(2)}\n\nStake deducted from balance.\nWaiting for match results...\n\nNew Balance: KES ${(balance - stake).toFixed(2)}`)
+      alert(`Bet Placed!\n\nYour bet has been placed successfully.\nStake: ${formatMoney(totalStake, currency)}\nPotential Win: ${formatMoney(calculatePotentialWin(), currency)}\n\nStake deducted from balance.\nWaiting for match results...\n\nNew Balance: ${formatMoney(balance - totalStake, currency)}`)
     }
   }
 
+  // The scores feed settles match bets; only outrights, and bets held for
+  // review (by an admin), are settled by hand
+  const canSettleManually = (bet: PendingBet) =>
+    !canSettleFromScores(bet) || (!!session?.isAdmin && reviewBetIds.has(bet.id))
+
   const settleBet = (betId: string, won: boolean) => {
     const bet = pendingBets.find(b => b.id === betId)
-    if (!bet) return
+    if (!bet || !canSettleManually(bet)) return
 
+    if (recordSettlements([{ bet, payout: won ? bet.potentialWin : 0 }]).length === 0) return
     if (won) {
-      setBalance(balance + bet.potentialWin)
-      alert(`Bet Won!\n\nStake: KES ${bet.stake.toFixed(2)}\nWinnings: KES ${bet.potentialWin.toFixed(2)}\nProfit: KES ${(bet.potentialWin - bet.stake).toFixed(2)}\n\nNew Balance: KES ${(balance + bet.potentialWin).toFixed(2)}`)
+      alert(`Bet Won!\n\nStake: ${formatMoney(bet.stake, currency)}\nWinnings: ${formatMoney(bet.potentialWin, currency)}\nProfit: ${formatMoney(bet.potentialWin - bet.stake, currency)}\n\nNew Balance: ${formatMoney(balance + bet.potentialWin, currency)}`)
     } else {
-      alert(`Bet Lost!\n\nStake: KES ${bet.stake.toFixed(2)}\nLoss: KES ${bet.stake.toFixed(2)}\n\nBalance: KES ${balance.toFixed(2)}`)
+      alert(`Bet Lost!\n\nStake: ${formatMoney(bet.stake, currency)}\nLoss: ${formatMoney(bet.stake, currency)}\n\nBalance: ${formatMoney(balance, currency)}`)
     }
+  }
 
-    setPendingBets(pendingBets.filter(b => b.id !== betId))
+  // System bets are settled match by match; each line pays if all its matches won
+  const markSystemBetUnit = (betId: string, unitKey: string, won: boolean) => {
+    const bet = pendingBets.find(b => b.id === betId)
+    if (!bet || !canSettleManually(bet)) return
+    const updated = pendingBets.map(bet => bet.id === betId && bet.systemBet
+      ? { ...bet, systemBet: { ...bet.systemBet, unitWon: { ...bet.systemBet.unitWon, [unitKey]: won } } }
+      : bet
+    )
+    persistBets(updated.filter(bet => bet.id === betId), 'pending')
+    setPendingBets(updated)
   }
 
-  const resetBalance = () => {
-    setBalance(50000)
-    setBetSlip([])
-    setPendingBets([])
+  const settleSystemBet = (betId: string) => {
+    const bet = pendingBets.find(b => b.id === betId)
+    if (!bet?.systemBet || !canSettleManually(bet)) return
+
+    const { label, lines, stakePerLine, unitWon } = bet.systemBet
+    const { linesWon, payout } = settleSystemLines(lines, unitWon, stakePerLine)
+    if (recordSettlements([{ bet, payout }]).length === 0) return
+    alert(`${label} Settled!\n\nLines Won: ${linesWon.filter(Boolean).length} of ${lines.length}\nStake: ${formatMoney(bet.stake, currency)}\nReturns: ${formatMoney(payout, currency)}\nProfit: ${formatMoney(payout - bet.stake, currency)}\n\nNew Balance: ${formatMoney(balance + payout, currency)}`)
   }
 
-  const fetchLeagues = async () => {
+  // Real-mode bets settle themselves once the scores feed has every result
+  const checkPendingResults = async () => {
+    if (isCheckingResultsRef.current) return
+    isCheckingResultsRef.current = true
     try {
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports?api_key=${API_KEY}`
-      )
+      await settlePendingBets()
+    } finally {
+      isCheckingResultsRef.current = false
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`)
+  const settlePendingBets = async () => {
+    // Leagues where nothing has kicked off yet aren't requested at all
+    const requests = getScoresRequests(pendingBets.flatMap(bet => bet.selections))
+
+    const scores: Record<string, MatchScore> = {}
+    const failedLeagues = new Set<string>()
+    for (const { leagueKey, daysFrom } of requests) {
+      try {
+        const result = await oddsProvider.fetchScores(leagueKey, daysFrom)
+        result.scores.forEach(score => { scores[score.matchId] = score })
+        if (result.requestsRemaining !== null) setRequestsRemaining(result.requestsRemaining)
+      } catch (err) {
+        console.error(`Failed to fetch scores for ${leagueKey}:`, err)
+        failedLeagues.add(leagueKey)
       }
-
-      const data = await response.json()
-      const soccerLeagues = data
-        .filter((sport: any) => sport.group === 'Soccer' && sport.active && !sport.has_outrights)
-        .slice(0, 10)
-        .map((sport: any) => ({
-          key: sport.key,
-          title: sport.title
-        }))
-
-      setLeagues(soccerLeagues)
-    } catch (err) {
-      console.error('Failed to fetch leagues:', err)
     }
+    // A league that didn't load says nothing about its matches (they'd look
+    // missing from the feed), so its bets wait for the next check
+    const isCheckable = (bet: PendingBet) => !bet.selections.some(sel => sel.sportKey && failedLeagues.has(sel.sportKey))
+
+    latestScoresRef.current = scores
+    await refreshCashOutOffers(pendingBetsRef.current.filter(bet => !settleBetFromScores(bet, scores)), scores)
+
+    // Bets may have been cashed out (fully or in part) while the scores and
+    // odds were loading, so settle what is pending now
+    const settled = pendingBetsRef.current.filter(isCheckable).flatMap(bet => {
+      const settlement = settleBetFromScores(bet, scores)
+      return settlement ? [{ bet, payout: settlement.payout }] : []
+    })
+
+    // Bets in a league that didn't load keep the flag they had
+    setReviewBetIds(prev => new Set(pendingBetsRef.current
+      .filter(bet => isCheckable(bet) ? isBetInReview(bet, scores) : prev.has(bet.id))
+      .map(bet => bet.id)))
+
+    const recorded = recordSettlements(settled)
+    if (recorded.length === 0) return
+    const totalPayout = recorded.reduce((sum, { payout }) => sum + payout, 0)
+
+    const summary = recorded.map(({ bet, payout }) =>
+      `${describeBet(bet)}\nStake: ${formatMoney(bet.stake, currency)} | Returned: ${formatMoney(payout, currency)}`
+    ).join('\n\n')
+    alert(`${recorded.length} Bet${recorded.length === 1 ? '' : 's'} Settled!\n\n${summary}\n\nTotal Returned: ${formatMoney(totalPayout, currency)}`)
   }
 
-  const selectBestBookmaker = (bookmakers: any[]) => {
-    let bestBookmaker = null
-    let bestScore = -1
-
-    for (const bookmaker of bookmakers) {
-      let score = 0
-      const markets = bookmaker.markets || []
-      
-      const h2h = markets.find((m: any) => m.key === 'h2h')
-      const spreads = markets.find((m: any) => m.key === 'spreads')
-      const totals = markets.find((m: any) => m.key === 'totals')
-
-      if (h2h && h2h.outcomes?.length >= 2) score += 1
-      if (spreads && spreads.outcomes?.length >= 2 && spreads.outcomes[0]?.point !== undefined) score += 1
-      if (totals && totals.outcomes?.length >= 2 && totals.outcomes[0]?.point !== undefined) score += 1
-
-      if (score > bestScore) {
-        bestScore = score
-        bestBookmaker = bookmaker
+  // The poll always runs the latest closure without restarting the interval
+  // Offers are priced from the current odds of every match and outright on
+  // the bet (through the odds cache) and the scores of those already played
+  const refreshCashOutOffers = async (bets: PendingBet[] = pendingBets, scores: Record<string, MatchScore> = latestScoresRef.current) => {
+    const leagueKeys = Array.from(new Set(bets.flatMap(bet => bet.selections.map(sel => sel.sportKey))))
+      .filter((key): key is string => !!key)
+
+    const currentMatches: Record<string, Match> = {}
+    const currentOutrights: Record<string, Outright> = {}
+    for (const leagueKey of leagueKeys) {
+      try {
+        const odds = await loadLeagueOdds(leagueKey)
+        odds.data.forEach(match => { currentMatches[match.id] = priceMatch(match, settings) })
+        odds.outrights?.forEach(outright => { currentOutrights[outright.id] = outright })
+      } catch (err) {
+        console.error(`Failed to fetch odds for ${leagueKey}:`, err)
       }
     }
 
-    return bestBookmaker
+    const offers: Record<string, number | null> = {}
+    bets.forEach(bet => {
+      const unitValues = Object.fromEntries(Object.entries(bet.unitOdds).map(([unitKey, odds]) => [
+        unitKey,
+        getUnitValue(bet.selections.filter(sel => sel.matchId === unitKey), odds, {
+          match: currentMatches[unitKey],
+          outright: currentOutrights[unitKey],
+          score: scores[unitKey]
+        })
+      ]))
+      offers[bet.id] = quoteCashOut(bet, unitValues)
+    })
+    setCashOutOffers(offers)
+
+    bets
+      .filter(bet => bet.autoCashOutAt !== undefined && offers[bet.id] !== null && offers[bet.id]! >= bet.autoCashOutAt)
+      .forEach(bet => cashOutBet(bet, offers[bet.id]!, 1, true))
   }
 
-  const fetchOdds = async (leagueKey?: string, forceRefresh = false) => {
-    const targetLeague = leagueKey || activeLeagueKey
-    
-    if (!forceRefresh && cache[targetLeague]) {
-      const cached = cache[targetLeague]
-      const age = Date.now() - cached.fetchedAt
-      if (age < CACHE_TTL) {
-        setMatches(cached.data)
-        setLastFetch(cached.fetchedAt)
-        return
-      }
+  // Cash out `share` of what is left of a bet at `offer` (the offer for all of it)
+  const cashOutBet = (bet: PendingBet, offer: number, share: number, isAuto = false) => {
+    // Overlapping refreshes can both see an auto-cash-out target reached
+    if (closedBetIdsRef.current.has(bet.id)) return
+    if (share >= 1) closedBetIdsRef.current.add(bet.id)
+
+    const amount = Math.floor(offer * share * 100) / 100
+    const event: CashOutEvent = { type: 'cash_out', at: new Date(), amount, share, isAuto }
+    const cashOutHistory = [...(bet.cashOutHistory || []), event]
+    recordTransactions([{ type: 'cash_out', amount, betId: bet.id, description: `Cash out${isAuto ? ' (auto)' : ''}: ${describeBet(bet)}` }])
+
+    if (share >= 1) {
+      const cashedOut = cashOutHistory.reduce((sum, e) => e.type === 'cash_out' ? sum + e.amount : sum, 0)
+      persistBets([{ ...bet, cashOutHistory }], 'cashed_out', { [bet.id]: cashedOut })
+      setPendingBets(prev => prev.filter(b => b.id !== bet.id))
+    } else {
+      const remaining = { ...reduceBet(bet, share), cashOutHistory }
+      persistBets([remaining], 'pending')
+      setPendingBets(prev => prev.map(b => b.id === bet.id ? remaining : b))
     }
+    setCashOutOffers(prev => ({ ...prev, [bet.id]: share >= 1 ? null : offer - amount }))
 
-    setIsLoading(true)
-    setError(null)
+    if (isAuto) {
+      alert(`Auto Cash-Out!\n\n${describeBet(bet)}\nCashed out for ${formatMoney(amount, currency)}`)
+    }
+  }
 
-    try {
-      const response = await fetch(
-        `https://api.the-odds-api.com/v4/sports/${targetLeague}/odds?api_key=${API_KEY}&regions=uk&markets=h2h,spreads,totals&oddsFormat=decimal&dateFormat=iso`
-      )
+  const setAutoCashOut = (betId: string, target: number | undefined) => {
+    const bet = pendingBets.find(b => b.id === betId)
+    if (!bet) return
 
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`)
-      }
+    const event: CashOutEvent = target === undefined
+      ? { type: 'auto_cash_out_cleared', at: new Date() }
+      : { type: 'auto_cash_out_set', at: new Date(), target }
+    const updated = { ...bet, autoCashOutAt: target, cashOutHistory: [...(bet.cashOutHistory || []), event] }
+    persistBets([updated], 'pending')
+    setPendingBets(prev => prev.map(b => b.id === betId ? updated : b))
 
-      const data = await response.json()
-      const remaining = response.headers.get('x-requests-remaining')
-      if (remaining) {
-        setRequestsRemaining(parseInt(remaining))
-      }
+    const offer = cashOutOffers[betId]
+    if (target !== undefined && offer != null && offer >= target) cashOutBet(updated, offer, 1, true)
+  }
 
-      const transformedMatches: Match[] = data.slice(0, 6).map((event: any) => {
-        const bookmaker = selectBestBookmaker(event.bookmakers || [])
-        
-        const h2hMarket = bookmaker?.markets?.find((m: any) => m.key === 'h2h')
-        const spreadsMarket = bookmaker?.markets?.find((m: any) => m.key === 'spreads')
-        const totalsMarket = bookmaker?.markets?.find((m: any) => m.key === 'totals')
-
-        const commenceTime = new Date(event.commence_time)
-        const timeStr = commenceTime.toLocaleString('en-US', {
-          month: 'short',
-          day: 'numeric',
-          hour: '2-digit',
-          minute: '2-digit'
-        })
+  const checkPendingResultsRef = useRef(checkPendingResults)
+  checkPendingResultsRef.current = checkPendingResults
+  const hasPendingBets = pendingBets.length > 0
 
-        const match: Match = {
-          id: event.id,
-          league: event.sport_title,
-          homeTeam: event.home_team,
-          awayTeam: event.away_team,
-          time: timeStr
-        }
+  // Check straight away (when bets are restored at sign-in, or the first is
+  // placed), then on every poll
+  useEffect(() => {
+    if (!hasPendingBets) return
+    checkPendingResultsRef.current()
+    const interval = setInterval(() => checkPendingResultsRef.current(), SCORES_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [hasPendingBets])
 
-        if (h2hMarket) {
-          const homeOutcome = h2hMarket.outcomes?.find((o: any) => o.name === event.home_team)
-          const awayOutcome = h2hMarket.outcomes?.find((o: any) => o.name === event.away_team)
-          const drawOutcome = h2hMarket.outcomes?.find((o: any) => o.name === 'Draw')
-
-          if (homeOutcome && awayOutcome) {
-            match.h2h = {
-              home: homeOutcome.price || 2.0,
-              draw: drawOutcome?.price,
-              away: awayOutcome.price || 2.0
-            }
-          }
-        }
+  // Price new (or partly cashed-out) bets straight away rather than at the next poll
+  const refreshCashOutOffersRef = useRef(refreshCashOutOffers)
+  refreshCashOutOffersRef.current = refreshCashOutOffers
+  const pendingBetStakes = pendingBets.map(bet => `${bet.id}:${bet.stake}`).join(',')
 
-        if (spreadsMarket && spreadsMarket.outcomes?.length >= 2) {
-          const homeOutcome = spreadsMarket.outcomes.find((o: any) => o.name === event.home_team)
-          const awayOutcome = spreadsMarket.outcomes.find((o: any) => o.name === event.away_team)
+  useEffect(() => {
+    if (!pendingBetStakes) return
+    refreshCashOutOffersRef.current()
+  }, [pendingBetStakes])
 
-          if (homeOutcome && awayOutcome && homeOutcome.point !== undefined) {
-            match.spread = {
-              point: homeOutcome.point,
-              home: homeOutcome.price || 2.0,
-              away: awayOutcome.price || 2.0
-            }
-          }
-        }
+  // Pending stakes are forfeited and bonus funds cleared; the ledger records
+  // the jump back to the starting balance
+  const resetBalance = () => {
+    const transactions: WalletTransaction[] = [
+      { type: 'reset', amount: getStartingBalance(currency) - balances.cash, fund: 'cash', description: 'Balance reset' },
+      { type: 'reset', amount: -balances.bonus, fund: 'bonus', description: 'Bonus funds cleared' }
+    ]
+    recordTransactions(transactions.filter(transaction => transaction.amount !== 0))
+    persistBets(pendingBets, 'cancelled')
+    setBetSlip([])
+    setPendingBets([])
+  }
+
+  const fetchLeagues = async () => {
+    try {
+      setLeagues(await oddsProvider.fetchLeagues())
+    } catch (err) {
+      console.error('Failed to fetch leagues:', err)
+    }
+  }
 
-        if (totalsMarket && totalsMarket.outcomes?.length >= 2) {
-          const overOutcome = totalsMarket.outcomes.find((o: any) => o.name === 'Over')
-          const underOutcome = totalsMarket.outcomes.find((o: any) => o.name === 'Under')
+  // Odds for a league from the cache while fresh, otherwise from the provider
+  const loadLeagueOdds = async (leagueKey: string, forceRefresh = false): Promise<CachedData> => {
+    const isOutrightLeague = !!leagues.find(league => league.key === leagueKey)?.hasOutrights
+    const request = isOutrightLeague ? toOutrightsRequest(toOddsRequest(settings)) : toOddsRequest(settings)
+    const cacheKey = oddsRequestKey(oddsProvider.name, leagueKey, request)
 
-          if (overOutcome && underOutcome && overOutcome.point !== undefined) {
-            match.totals = {
-              point: overOutcome.point,
-              over: overOutcome.price || 2.0,
-              under: underOutcome.price || 2.0
-            }
-          }
-        }
+    const cached = cache[cacheKey]
+    if (!forceRefresh && cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+      return cached
+    }
 
-        // Generate missing markets based on existing odds
-        // Only if we have at least h2h odds
-        if (match.h2h) {
-          const enrichedMatch = {
-            ...match,
-            ...generateMissingMarkets(match, supportedMarkets)
-          }
-          return enrichedMatch
-        }
-        return match
-      })
+    let fetchedMatches: Match[] = []
+    let fetchedOutrights: Outright[] | undefined
+    let remaining: number | null
+    if (isOutrightLeague) {
+      ({ outrights: fetchedOutrights, requestsRemaining: remaining } = await oddsProvider.fetchOutrights(leagueKey, request))
+    } else {
+      ({ matches: fetchedMatches, requestsRemaining: remaining } = await oddsProvider.fetchOdds(leagueKey, request))
+    }
+    if (remaining !== null) {
+      setRequestsRemaining(remaining)
+    }
+
+    const entry: CachedData = {
+      data: fetchedMatches,
+      ...(fetchedOutrights ? { outrights: fetchedOutrights } : {}),
+      fetchedAt: Date.now(),
+      request
+    }
+    setCache(prev => ({ ...prev, [cacheKey]: entry }))
+    return entry
+  }
 
-      setMatches(transformedMatches)
-      const now = Date.now()
-      setLastFetch(now)
+  const fetchOdds = async (leagueKey?: string, forceRefresh = false) => {
+    setIsLoading(true)
+    setError(null)
 
-      const newCache = {
-        ...cache,
-        [targetLeague]: {
-          data: transformedMatches,
-          fetchedAt: now,
-          region: 'uk'
-        }
-      }
-      setCache(newCache)
-      localStorage.setItem('oddsCache', JSON.stringify(newCache))
+    try {
+      const odds = await loadLeagueOdds(leagueKey || activeLeagueKey, forceRefresh)
+      setMatches(odds.data)
+      setOutrights(odds.outrights || [])
+      setLastFetch(odds.fetchedAt)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch odds')
       setMatches([])
+      setOutrights([])
     } finally {
       setIsLoading(false)
     }
@@ -747,7 +1515,7 @@ function App() {
     if (leagues.length > 0) {
       fetchOdds()
     }
-  }, [activeLeagueKey, leagues])
+  }, [activeLeagueKey, leagues, settings.oddsRegions, settings.extraOddsMarkets, settings.bookmakerAllowList])
 
   const handleLeagueChange = (leagueKey: string) => {
     setActiveLeagueKey(leagueKey)
@@ -759,6 +1527,21 @@ function App() {
     return markets.length > 0 ? markets.join(', ') : 'Loading...'
   }
 
+  const trialSummaries = useMemo(() => simulationResults.map(toTrialSummary), [simulationResults])
+  // Volatility and target RTP the shown results were run with
+  const resultsReplay = simulationResults.find(result => result.replay)?.replay
+
+  // Spread selections can settle as half-win/half-loss/push, which the
+  // simulator's won flag can't express, so they are settled from the score
+  const getHandicapSettlement = (result: SimulationResult, sel: Selection): HandicapSettlement | null => {
+    if (sel.market !== 'spreads' || sel.point === undefined) return null
+    const score = getSelectionScore(result, sel)
+    if (!score) return null
+    const goalDifference = sel.side === 'home' ? score.home - score.away : score.away - score.home
+    const line = sel.side === 'home' ? sel.point : -sel.point
+    return settleAsianHandicap(goalDifference, line, sel.odds)
+  }
+
   const getTimeSinceLastFetch = () => {
     if (!lastFetch) return ''
     const seconds = Math.floor((Date.now() - lastFetch) / 1000)
@@ -796,7 +1579,10 @@ function App() {
             <div className="flex items-center gap-4">
               <div className="bg-red-700 px-4 py-2 rounded-lg">
                 <span className="text-sm opacity-80">Balance</span>
-                <div className="text-xl font-bold">KES {balance.toFixed(2)}</div>
+                <div className="text-xl font-bold">{formatMoney(balance, currency)}</div>
+                {balances.bonus > 0 && (
+                  <div className="text-xs opacity-80">incl. {formatMoney(balances.bonus, currency)} bonus</div>
+                )}
               </div>
               <Button 
                 onClick={() => fetchOdds(activeLeagueKey, true)}
@@ -825,6 +1611,28 @@ function App() {
               >
                 My Bets
               </Button>
+              <Button 
+                onClick={() => setShowWallet(true)}
+                variant="outline"
+                className="bg-white text-red-600 hover:bg-gray-100"
+              >
+                Wallet
+              </Button>
+              <Button 
+                onClick={() => setShowResponsibleGambling(true)}
+                variant="outline"
+                className="bg-white text-red-600 hover:bg-gray-100"
+              >
+                Limits
+              </Button>
+              <Button 
+                onClick={() => setShowSettings(true)}
+                variant="outline"
+                className="bg-white text-red-600 hover:bg-gray-100"
+              >
+                <Settings size={16} className="mr-2" />
+                Settings
+              </Button>
               <Button 
                 onClick={handleLogout}
                 variant="outline"
@@ -847,7 +1655,7 @@ function App() {
                     <>
                       <span>RTP (Stake): {(playerStats.actual_rtp || 0).toFixed(1)}%</span>
                       <span className={(playerStats.total_profit || 0) >= 0 ? 'text-green-300' : 'text-red-300'}>
-                        Profit: KES {(playerStats.total_profit || 0).toFixed(2)}
+                        Profit: {formatMoney(playerStats.total_profit || 0, currency)}
                       </span>
                     </>
                   )}
@@ -874,26 +1682,19 @@ function App() {
           <div className="lg:col-span-2">
             <div className="bg-gray-800 rounded-lg p-4 mb-4">
               <div className="flex justify-between items-center mb-4">
-                <h2 className="text-white text-xl font-bold">Football Leagues</h2>
+                <h2 className="text-white text-xl font-bold">Leagues</h2>
                 <div className="text-sm text-gray-400">
                   Markets: {getAvailableMarkets()}
                 </div>
               </div>
-              <div className="flex gap-2 mb-2 overflow-x-auto pb-2">
-                {leagues.map(league => (
-                  <button
-                    key={league.key}
-                    onClick={() => handleLeagueChange(league.key)}
-                    className={`px-4 py-2 rounded-lg whitespace-nowrap transition font-medium ${
-                      activeLeagueKey === league.key
-                        ? 'bg-green-600 text-white shadow-lg'
-                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                    }`}
-                  >
-                    {league.title}
-                  </button>
-                ))}
-              </div>
+              <LeaguePicker
+                leagues={leagues}
+                activeLeagueKey={activeLeagueKey}
+                onChange={handleLeagueChange}
+              />
+              {matches.length > 0 && (
+                <div className="text-xs text-gray-500 mt-2">{matches.length} match{matches.length !== 1 ? 'es' : ''}</div>
+              )}
             </div>
 
             {/* Error Message */}
@@ -911,147 +1712,217 @@ function App() {
             )}
 
             {/* Matches */}
-            <div className="space-y-4">
-              {matches.map(match => (
-                <Card key={match.id} className="bg-gray-800 border-gray-700 p-4">
-                  <div className="flex justify-between items-start mb-3">
-                    <div>
-                      <div className="text-gray-400 text-xs mb-1">{match.league}</div>
-                      <div className="text-gray-400 text-xs mb-2">{match.time}</div>
-                    </div>
-                  </div>
-                  <div className="text-white font-semibold mb-4 text-base">
-                    <div className="mb-1">{match.homeTeam}</div>
-                    <div className="text-gray-400 text-xs mb-1">vs</div>
-                    <div>{match.awayTeam}</div>
-                  </div>
-
-                  {/* 1X2 Market */}
-                  {match.h2h ? (
-                    <div className="mb-3">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">1X2</div>
-                      <div className="grid grid-cols-3 gap-2">
-                        <button
-                          onClick={() => addToBetSlip(match, 'h2h', 'home', match.h2h!.home)}
-                          className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
-                        >
-                          <div className="text-xs mb-1">1</div>
-                          <div>{(match.h2h?.home || 0).toFixed(2)}</div>
-                        </button>
-                        {match.h2h.draw ? (
-                          <button
-                            onClick={() => addToBetSlip(match, 'h2h', 'draw', match.h2h!.draw!)}
-                            className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
-                          >
-                            <div className="text-xs mb-1">X</div>
-                            <div>{(match.h2h?.draw || 0).toFixed(2)}</div>
-                          </button>
-                        ) : (
-                          <div className="bg-gray-700 rounded-lg p-3 flex items-center justify-center">
-                            <span className="text-gray-500 text-xs">N/A</span>
-                          </div>
-                        )}
-                        <button
-                          onClick={() => addToBetSlip(match, 'h2h', 'away', match.h2h!.away)}
-                          className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
-                        >
-                          <div className="text-xs mb-1">2</div>
-                          <div>{(match.h2h?.away || 0).toFixed(2)}</div>
-                        </button>
+            {activeLeague?.hasOutrights ? (
+              <OutrightsView
+                outrights={outrights}
+                marginMethod={settings.marginMethod}
+                onSelect={addOutrightToBetSlip}
+              />
+            ) : (
+              <VirtualMatchList
+                matches={pricedMatches}
+                renderMatch={match => {
+                  const sportConfig = getSportConfig(match)
+                  return (
+                    <Card className="bg-gray-800 border-gray-700 p-4">
+                      <div className="flex justify-between items-start mb-3">
+                        <div>
+                          <div className="text-gray-400 text-xs mb-1">{match.league}</div>
+                          <div className="text-gray-400 text-xs mb-2">{match.time}</div>
+                        </div>
+                        <OddsComparisonDrawer match={match} marginMethod={settings.marginMethod} />
                       </div>
-                    </div>
-                  ) : (
-                    <div className="mb-3">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">1X2</div>
-                      <div className="bg-gray-700 rounded-lg p-3 text-center">
-                        <span className="text-gray-500 text-sm">Not available</span>
+                      <div className="text-white font-semibold mb-4 text-base">
+                        <div className="mb-1">{match.homeTeam}</div>
+                        <div className="text-gray-400 text-xs mb-1">vs</div>
+                        <div>{match.awayTeam}</div>
                       </div>
-                    </div>
-                  )}
 
-                  {/* Over/Under Market */}
-                  {match.totals ? (
-                    <div className="mb-3">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">
-                        Over/Under ({match.totals.point})
-                      </div>
-                      <div className="grid grid-cols-2 gap-2">
-                        <button
-                          onClick={() => addToBetSlip(match, 'totals', 'over', match.totals!.over, match.totals!.point)}
-                          className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg p-3 font-bold transition text-sm"
-                        >
-                          <div className="text-xs mb-1">Over {match.totals.point}</div>
-                          <div>{(match.totals?.over || 0).toFixed(2)}</div>
-                        </button>
-                        <button
-                          onClick={() => addToBetSlip(match, 'totals', 'under', match.totals!.under, match.totals!.point)}
-                          className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg p-3 font-bold transition text-sm"
-                        >
-                          <div className="text-xs mb-1">Under {match.totals.point}</div>
-                          <div>{(match.totals?.under || 0).toFixed(2)}</div>
-                        </button>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="mb-3">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">Over/Under</div>
-                      <div className="bg-gray-700 rounded-lg p-3 text-center">
-                        <span className="text-gray-500 text-sm">Not available</span>
-                      </div>
-                    </div>
-                  )}
+                      {/* 1X2 Market */}
+                      {match.h2h ? (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">{sportConfig.h2hLabel}</div>
+                          <div className={`grid ${sportConfig.hasDraw ? 'grid-cols-3' : 'grid-cols-2'} gap-2`}>
+                            <button
+                              onClick={() => addToBetSlip(match, 'h2h', 'home', match.h2h!.home)}
+                              className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
+                            >
+                              <div className="text-xs mb-1">1</div>
+                              <div>{(match.h2h?.home || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.h2h?.home && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.h2h?.home}</div>
+                              )}
+                            </button>
+                            {match.h2h.draw ? (
+                              <button
+                                onClick={() => addToBetSlip(match, 'h2h', 'draw', match.h2h!.draw!)}
+                                className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
+                              >
+                                <div className="text-xs mb-1">X</div>
+                                <div>{(match.h2h?.draw || 0).toFixed(2)}</div>
+                                {match.bestPriceSources?.h2h?.draw && (
+                                  <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.h2h?.draw}</div>
+                                )}
+                              </button>
+                            ) : sportConfig.hasDraw && (
+                              <div className="bg-gray-700 rounded-lg p-3 flex items-center justify-center">
+                                <span className="text-gray-500 text-xs">N/A</span>
+                              </div>
+                            )}
+                            <button
+                              onClick={() => addToBetSlip(match, 'h2h', 'away', match.h2h!.away)}
+                              className="bg-green-600 hover:bg-green-700 text-white rounded-lg p-3 font-bold transition"
+                            >
+                              <div className="text-xs mb-1">2</div>
+                              <div>{(match.h2h?.away || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.h2h?.away && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.h2h?.away}</div>
+                              )}
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">{sportConfig.h2hLabel}</div>
+                          <div className="bg-gray-700 rounded-lg p-3 text-center">
+                            <span className="text-gray-500 text-sm">Not available</span>
+                          </div>
+                        </div>
+                      )}
 
-                  {/* Both Teams To Score Market */}
-                  {match.bothTeamsToScore ? (
-                    <div className="mb-3">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">Both Teams To Score</div>
-                      <div className="grid grid-cols-2 gap-2">
-                        <button
-                          onClick={() => addToBetSlip(match, 'btts', 'yes', match.bothTeamsToScore!.yes)}
-                          className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg p-3 font-bold transition text-sm"
-                        >
-                          <div className="text-xs mb-1">Yes</div>
-                          <div>{(match.bothTeamsToScore?.yes || 0).toFixed(2)}</div>
-                        </button>
-                        <button
-                          onClick={() => addToBetSlip(match, 'btts', 'no', match.bothTeamsToScore!.no)}
-                          className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg p-3 font-bold transition text-sm"
-                        >
-                          <div className="text-xs mb-1">No</div>
-                          <div>{(match.bothTeamsToScore?.no || 0).toFixed(2)}</div>
-                        </button>
-                      </div>
-                    </div>
-                  ) : (
-                    <div className="mb-2">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">Both Teams To Score</div>
-                      <div className="bg-gray-700 rounded-lg p-3 text-center">
-                        <span className="text-gray-500 text-sm">Not available</span>
-                      </div>
-                    </div>
-                  )}
+                      {/* Handicap Market */}
+                      {!sportConfig.markets.includes('spreads') ? null : match.spread ? (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">{sportConfig.spreadLabel}</div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <button
+                              onClick={() => addToBetSlip(match, 'spreads', 'home', match.spread!.home, match.spread!.point)}
+                              className="bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1 truncate">{match.homeTeam} {formatHandicap(match.spread.point)}</div>
+                              <div>{(match.spread?.home || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.spread?.home && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.spread?.home}</div>
+                              )}
+                            </button>
+                            <button
+                              onClick={() => addToBetSlip(match, 'spreads', 'away', match.spread!.away, match.spread!.point)}
+                              className="bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1 truncate">{match.awayTeam} {formatHandicap(-match.spread.point)}</div>
+                              <div>{(match.spread?.away || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.spread?.away && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.spread?.away}</div>
+                              )}
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">{sportConfig.spreadLabel}</div>
+                          <div className="bg-gray-700 rounded-lg p-3 text-center">
+                            <span className="text-gray-500 text-sm">Not available</span>
+                          </div>
+                        </div>
+                      )}
 
-                  {/* Correct Score Market */}
-                  {match.correctScore && match.correctScore.scores.length > 0 ? (
-                    <div className="mb-2">
-                      <div className="text-gray-400 text-xs mb-2 font-medium">Correct Score (Popular)</div>
-                      <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
-                        {match.correctScore.scores.slice(0, 12).map((score, idx) => (
-                          <button
-                            key={idx}
-                            onClick={() => addToBetSlip(match, 'correct_score', score.score, score.odds)}
-                            className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg p-2 font-bold transition text-xs"
-                          >
-                            <div className="text-xs mb-1">{score.score}</div>
-                            <div className="text-xs">{(score.odds || 0).toFixed(1)}</div>
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                  ) : null}
-                </Card>
-              ))}
-            </div>
+                      {/* Over/Under Market */}
+                      {!sportConfig.markets.includes('totals') ? null : match.totals ? (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">
+                            Total {sportConfig.scoreUnit} ({match.totals.point})
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <button
+                              onClick={() => addToBetSlip(match, 'totals', 'over', match.totals!.over, match.totals!.point)}
+                              className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1">Over {match.totals.point}</div>
+                              <div>{(match.totals?.over || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.totals?.over && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.totals?.over}</div>
+                              )}
+                            </button>
+                            <button
+                              onClick={() => addToBetSlip(match, 'totals', 'under', match.totals!.under, match.totals!.point)}
+                              className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1">Under {match.totals.point}</div>
+                              <div>{(match.totals?.under || 0).toFixed(2)}</div>
+                              {match.bestPriceSources?.totals?.under && (
+                                <div className="text-[10px] font-normal opacity-75 truncate">{match.bestPriceSources?.totals?.under}</div>
+                              )}
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">Total {sportConfig.scoreUnit}</div>
+                          <div className="bg-gray-700 rounded-lg p-3 text-center">
+                            <span className="text-gray-500 text-sm">Not available</span>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Both Teams To Score Market */}
+                      {!sportConfig.markets.includes('btts') ? null : match.bothTeamsToScore ? (
+                        <div className="mb-3">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">Both Teams To Score</div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <button
+                              onClick={() => addToBetSlip(match, 'btts', 'yes', match.bothTeamsToScore!.yes)}
+                              className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1">Yes</div>
+                              <div>{(match.bothTeamsToScore?.yes || 0).toFixed(2)}</div>
+                            </button>
+                            <button
+                              onClick={() => addToBetSlip(match, 'btts', 'no', match.bothTeamsToScore!.no)}
+                              className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg p-3 font-bold transition text-sm"
+                            >
+                              <div className="text-xs mb-1">No</div>
+                              <div>{(match.bothTeamsToScore?.no || 0).toFixed(2)}</div>
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="mb-2">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">Both Teams To Score</div>
+                          <div className="bg-gray-700 rounded-lg p-3 text-center">
+                            <span className="text-gray-500 text-sm">Not available</span>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Correct Score Market */}
+                      {match.correctScore && match.correctScore.scores.length > 0 ? (
+                        <div className="mb-2">
+                          <div className="text-gray-400 text-xs mb-2 font-medium">{sportConfig.correctScoreLabel}</div>
+                          <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+                            {match.correctScore.scores.slice(0, 12).map((score, idx) => (
+                              <button
+                                key={idx}
+                                onClick={() => addToBetSlip(match, 'correct_score', score.score, score.odds)}
+                                className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg p-2 font-bold transition text-xs"
+                              >
+                                <div className="text-xs mb-1">{score.score}</div>
+                                <div className="text-xs">{(score.odds || 0).toFixed(1)}</div>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ) : null}
+
+                      <ExtraMarkets
+                        match={match}
+                        marginMethod={settings.marginMethod}
+                        onSelect={(market, side, odds, point) => addToBetSlip(match, market, side, odds, point)}
+                      />
+                    </Card>
+                  )
+                }}
+              />
+            )}
           </div>
 
           {/* Betslip Section - Desktop Sidebar */}
@@ -1103,6 +1974,7 @@ function App() {
                   </div>
                 ) : (
                   <div className="space-y-3">
+                    <BetSlipTabs tab={betSlipTab} onChange={setBetSlipTab} />
                     {betSlip.map(selection => (
                       <div key={selection.id} className="bg-gray-700 p-3 rounded-lg">
                         <div className="flex justify-between items-start mb-2">
@@ -1110,6 +1982,14 @@ function App() {
                             <div className="text-white text-sm font-medium">{selection.selection}</div>
                             <div className="text-gray-400 text-xs">{selection.match}</div>
                             <div className="text-gray-500 text-xs capitalize">{selection.market}</div>
+                            {selection.bookmaker && (
+                              <div className="text-gray-500 text-xs">Best price: {selection.bookmaker}</div>
+                            )}
+                            {selection.market === 'spreads' && selection.point !== undefined && isQuarterLine(selection.point) && (
+                              <div className="text-gray-500 text-xs">
+                                Split stake: {splitHandicapLine(selection.side === 'home' ? selection.point : -selection.point).map(formatHandicap).join(' / ')}
+                              </div>
+                            )}
                           </div>
                           <button
                             onClick={() => removeFromBetSlip(selection.id)}
@@ -1118,17 +1998,33 @@ function App() {
                             <X size={16} />
                           </button>
                         </div>
-                        <div className="text-green-400 font-bold">{(selection?.odds || 0).toFixed(2)}</div>
+                        <SelectionOdds odds={selection.odds} previousOdds={selection.previousOdds} changedOdds={getChangedOdds(selection)} />
+                        {betSlipTab === 'singles' && (
+                          <SingleStakeInput
+                            stake={getSingleStake(selection)}
+                            odds={selection.odds}
+                            currency={currency}
+                            onChange={amount => setSingleStakes({ ...singleStakes, [selection.id]: amount })}
+                          />
+                        )}
                       </div>
                     ))}
 
+                    {betSlipTab === 'multiple' && Object.entries(sameGameMultis).map(([matchId, sameGamePrice]) => (
+                      <SameGameMultiSummary key={matchId} match={betSlipByMatch[matchId][0].match} legs={betSlipByMatch[matchId]} price={sameGamePrice} />
+                    ))}
+
                     <div className="border-t border-gray-600 pt-3 mt-3">
+                      {betSlipTab === 'multiple' && slipUnits.length > 1 && (
+                        <SystemBetSelector bet={activeSystemBet} units={slipUnits.length} lines={systemLines.length} onChange={setSystemBet} />
+                      )}
+
                       <div className="mb-3">
-                        <label className="text-gray-400 text-sm block mb-1">Stake (KES)</label>
+                        <label className="text-gray-400 text-sm block mb-1">{betSlipTab === 'singles' ? `Stake All (${currency})` : isSystemBet ? `Stake per Line (${currency})` : `Stake (${currency})`}</label>
                         <input
                           type="number"
                           value={stake}
-                          onChange={(e) => setStake(Number(e.target.value))}
+                          onChange={(e) => applyStake(Number(e.target.value))}
                           className="w-full bg-gray-700 text-white p-2 rounded-lg"
                           min="1"
                         />
@@ -1161,28 +2057,46 @@ function App() {
                         </div>
                       )}
 
+                      {isSimMode && (
+                        <SimulatorControls
+                          controls={simulationControls}
+                          isAdmin={!!session?.isAdmin}
+                          engine={settings.simulationEngine}
+                          onChange={updateSimulationControls}
+                        />
+                      )}
+
                       <div className="bg-gray-700 p-3 rounded-lg mb-3">
                         <div className="flex justify-between text-sm mb-1">
-                          <span className="text-gray-400">Total Odds</span>
-                          <span className="text-white font-bold">{calculateTotalOdds().toFixed(2)}</span>
+                          <span className="text-gray-400">{getSlipSummary().label}</span>
+                          <span className="text-white font-bold">{getSlipSummary().value}</span>
                         </div>
                         <div className="flex justify-between text-sm mb-1">
-                          <span className="text-gray-400">{isSimMode ? 'Total Stake' : 'Stake'}</span>
-                          <span className="text-white font-bold">KES {(isSimMode ? stake * simulations : stake).toFixed(2)}</span>
+                          <span className="text-gray-400">{isSimMode || isSystemBet || betSlipTab === 'singles' ? 'Total Stake' : 'Stake'}</span>
+                          <span className="text-white font-bold">{formatMoney(isSimMode ? calculateTotalStake() * simulations : calculateTotalStake(), currency)}</span>
                         </div>
                         <div className="flex justify-between text-sm">
                           <span className="text-gray-400">{isSimMode ? 'Potential Win (per bet)' : 'Potential Win'}</span>
-                          <span className="text-green-400 font-bold">KES {calculatePotentialWin().toFixed(2)}</span>
+                          <span className="text-green-400 font-bold">{formatMoney(calculatePotentialWin(), currency)}</span>
                         </div>
                       </div>
 
+                      {hasPendingOddsChanges && (
+                        <Button
+                          onClick={acceptOddsChanges}
+                          className="w-full mb-2 bg-yellow-600 hover:bg-yellow-700 text-white"
+                        >
+                          Accept Odds Changes ({pendingOddsChanges.length})
+                        </Button>
+                      )}
+
                       <Button
                         onClick={runSimulation}
-                        disabled={isSimulating || betSlip.length === 0}
+                        disabled={isSimulating || betSlip.length === 0 || hasInvalidSameGameMulti || hasPendingOddsChanges}
                         className={`w-full ${isSimMode ? 'bg-yellow-500 hover:bg-yellow-600 text-black' : 'bg-green-600 hover:bg-green-700 text-white'} font-bold py-3`}
                       >
                         {isSimulating 
-                          ? (isSimMode ? 'Simulating...' : 'Placing Bet...') 
+                          ? (isSimMode ? simulatingLabel : 'Placing Bet...') 
                           : (isSimMode 
                               ? `Run ${simulations} Simulation${simulations > 1 ? 's' : ''}` 
                               : 'Place Bet'
@@ -1190,6 +2104,15 @@ function App() {
                         }
                       </Button>
 
+                      {simulationProgress && (
+                        <Button
+                          onClick={cancelSimulation}
+                          className="w-full mt-2 bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          Cancel{simulationProgress.failed > 0 ? ` (${simulationProgress.failed} failed)` : ''}
+                        </Button>
+                      )}
+
                       <button
                         onClick={() => setBetSlip([])}
                         className="w-full mt-2 text-gray-400 hover:text-white text-sm"
@@ -1206,14 +2129,30 @@ function App() {
             {pendingBets.length > 0 && (
               <Card className="bg-gray-800 border-gray-700 mt-4">
                 <div className="bg-gray-700 p-4 rounded-t-lg">
-                  <h3 className="text-white font-bold">Pending Bets ({pendingBets.length})</h3>
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-white font-bold">Pending Bets ({pendingBets.length})</h3>
+                    {hasPendingBets && (
+                      <button
+                        onClick={checkPendingResults}
+                        className="text-gray-400 hover:text-white"
+                        title="Check results now"
+                      >
+                        <RefreshCw size={16} />
+                      </button>
+                    )}
+                  </div>
                   <div className="text-gray-400 text-xs mt-1">
-                    Waiting for match results
+                    Waiting for match results · settled automatically from live scores
                   </div>
                 </div>
                 <div className="p-4 space-y-3">
                   {pendingBets.map(bet => (
                     <div key={bet.id} className="bg-gray-700 p-3 rounded-lg">
+                      {bet.systemBet && (
+                        <div className="text-yellow-400 text-xs font-semibold mb-2">
+                          {bet.systemBet.label} · {bet.systemBet.lines.length} lines @ {formatMoney(bet.systemBet.stakePerLine, currency)}
+                        </div>
+                      )}
                       <div className="space-y-2 mb-3">
                         {bet.selections.map((sel, idx) => (
                           <div key={sel?.id || idx} className="text-sm">
@@ -1225,27 +2164,49 @@ function App() {
                       <div className="border-t border-gray-600 pt-2 mb-3">
                         <div className="flex justify-between text-sm mb-1">
                           <span className="text-gray-400">Stake</span>
-                          <span className="text-white">KES {bet.stake.toFixed(2)}</span>
+                          <span className="text-white">{formatMoney(bet.stake, currency)}</span>
                         </div>
                         <div className="flex justify-between text-sm">
                           <span className="text-gray-400">Potential Win</span>
-                          <span className="text-green-400 font-bold">KES {bet.potentialWin.toFixed(2)}</span>
+                          <span className="text-green-400 font-bold">{formatMoney(bet.potentialWin, currency)}</span>
                         </div>
                       </div>
-                      <div className="flex gap-2">
-                        <Button
-                          onClick={() => settleBet(bet.id, true)}
-                          className="flex-1 bg-green-600 hover:bg-green-700 text-white"
-                        >
-                          Won
-                        </Button>
-                        <Button
-                          onClick={() => settleBet(bet.id, false)}
-                          className="flex-1 bg-red-600 hover:bg-red-700 text-white"
-                        >
-                          Lost
-                        </Button>
-                      </div>
+                      {reviewBetIds.has(bet.id) && (
+                        <div className="text-yellow-400 text-xs mb-3">
+                          A match on this bet has no result in the scores feed. It stays pending until an admin reviews it.
+                        </div>
+                      )}
+                      <CashOutPanel
+                        offer={cashOutOffers[bet.id]}
+                        autoCashOutAt={bet.autoCashOutAt}
+                        history={bet.cashOutHistory || []}
+                        currency={currency}
+                        onCashOut={share => cashOutBet(bet, cashOutOffers[bet.id]!, share)}
+                        onSetAutoCashOut={target => setAutoCashOut(bet.id, target)}
+                      />
+                      {canSettleManually(bet) && (bet.systemBet ? (
+                        <SystemBetSettlement
+                          selections={bet.selections}
+                          unitWon={bet.systemBet.unitWon}
+                          onMark={(unitKey, won) => markSystemBetUnit(bet.id, unitKey, won)}
+                          onSettle={() => settleSystemBet(bet.id)}
+                        />
+                      ) : (
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => settleBet(bet.id, true)}
+                            className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+                          >
+                            Won
+                          </Button>
+                          <Button
+                            onClick={() => settleBet(bet.id, false)}
+                            className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+                          >
+                            Lost
+                          </Button>
+                        </div>
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -1269,12 +2230,12 @@ function App() {
                       {betSlip.length} Bet{betSlip.length > 1 ? 's' : ''}
                     </div>
                     <div className="flex flex-col">
-                      <span className="text-xs opacity-90">Total Odds</span>
-                      <span className="font-bold">{calculateTotalOdds().toFixed(2)}</span>
+                      <span className="text-xs opacity-90">{getSlipSummary().label}</span>
+                      <span className="font-bold">{getSlipSummary().value}</span>
                     </div>
                     <div className="flex flex-col">
                       <span className="text-xs opacity-90">Potential Win</span>
-                      <span className="font-bold">KES {calculatePotentialWin().toFixed(2)}</span>
+                      <span className="font-bold">{formatMoney(calculatePotentialWin(), currency)}</span>
                     </div>
                   </div>
                   <div className="bg-green-700 rounded-full p-2">
@@ -1356,6 +2317,7 @@ function App() {
                   </div>
                 ) : (
                   <div className="space-y-3 mb-4">
+                  <BetSlipTabs tab={betSlipTab} onChange={setBetSlipTab} />
                   {betSlip.map(selection => (
                     <div key={selection.id} className="bg-gray-700 p-3 rounded-lg">
                       <div className="flex justify-between items-start mb-2">
@@ -1363,6 +2325,14 @@ function App() {
                           <div className="text-white text-sm font-medium">{selection.selection}</div>
                           <div className="text-gray-400 text-xs">{selection.match}</div>
                           <div className="text-gray-500 text-xs capitalize">{selection.market}</div>
+                          {selection.bookmaker && (
+                            <div className="text-gray-500 text-xs">Best price: {selection.bookmaker}</div>
+                          )}
+                          {selection.market === 'spreads' && selection.point !== undefined && isQuarterLine(selection.point) && (
+                            <div className="text-gray-500 text-xs">
+                              Split stake: {splitHandicapLine(selection.side === 'home' ? selection.point : -selection.point).map(formatHandicap).join(' / ')}
+                            </div>
+                          )}
                         </div>
                         <button
                           onClick={(e) => {
@@ -1374,21 +2344,36 @@ function App() {
                           <X size={16} />
                         </button>
                       </div>
-                      <div className="text-green-400 font-bold">{(selection?.odds || 0).toFixed(2)}</div>
+                      <SelectionOdds odds={selection.odds} previousOdds={selection.previousOdds} changedOdds={getChangedOdds(selection)} />
+                      {betSlipTab === 'singles' && (
+                        <SingleStakeInput
+                          stake={getSingleStake(selection)}
+                          odds={selection.odds}
+                          currency={currency}
+                          onChange={amount => setSingleStakes({ ...singleStakes, [selection.id]: amount })}
+                        />
+                      )}
                     </div>
                   ))}
+                  {betSlipTab === 'multiple' && Object.entries(sameGameMultis).map(([matchId, sameGamePrice]) => (
+                    <SameGameMultiSummary key={matchId} match={betSlipByMatch[matchId][0].match} legs={betSlipByMatch[matchId]} price={sameGamePrice} />
+                  ))}
                   </div>
                 )}
 
                 <div className="border-t border-gray-600 pt-4">
                   {/* Quick Stake Buttons */}
+                  {betSlipTab === 'multiple' && slipUnits.length > 1 && (
+                    <SystemBetSelector bet={activeSystemBet} units={slipUnits.length} lines={systemLines.length} onChange={setSystemBet} />
+                  )}
+
                   <div className="mb-3">
-                    <label className="text-gray-400 text-sm block mb-2">Stake (KES)</label>
+                    <label className="text-gray-400 text-sm block mb-2">{betSlipTab === 'singles' ? `Stake All (${currency})` : isSystemBet ? `Stake per Line (${currency})` : `Stake (${currency})`}</label>
                     <div className="flex gap-2 mb-2">
                       {[20, 50, 100, 500].map((amount) => (
                         <button
                           key={amount}
-                          onClick={() => setStake(amount)}
+                          onClick={() => applyStake(amount)}
                           className={`flex-1 py-2 px-3 rounded-lg font-medium transition ${
                             stake === amount
                               ? 'bg-yellow-500 text-black'
@@ -1402,7 +2387,7 @@ function App() {
                     <input
                       type="number"
                       value={stake}
-                      onChange={(e) => setStake(Number(e.target.value))}
+                      onChange={(e) => applyStake(Number(e.target.value))}
                       className="w-full bg-gray-700 text-white p-3 rounded-lg"
                       min="1"
                       placeholder="Enter stake"
@@ -1436,41 +2421,68 @@ function App() {
                     </div>
                   )}
 
+                  {isSimMode && (
+                    <SimulatorControls
+                      controls={simulationControls}
+                      isAdmin={!!session?.isAdmin}
+                      engine={settings.simulationEngine}
+                      onChange={updateSimulationControls}
+                    />
+                  )}
+
                   <div className="bg-gray-700 p-3 rounded-lg mb-4">
                     <div className="flex justify-between text-sm mb-2">
-                      <span className="text-gray-400">Total Odds</span>
-                      <span className="text-white font-bold">{calculateTotalOdds().toFixed(2)}</span>
+                      <span className="text-gray-400">{getSlipSummary().label}</span>
+                      <span className="text-white font-bold">{getSlipSummary().value}</span>
                     </div>
                     <div className="flex justify-between text-sm mb-2">
-                      <span className="text-gray-400">{isSimMode ? 'Total Stake' : 'Stake'}</span>
-                      <span className="text-white font-bold">KES {(isSimMode ? stake * simulations : stake).toFixed(2)}</span>
+                      <span className="text-gray-400">{isSimMode || isSystemBet || betSlipTab === 'singles' ? 'Total Stake' : 'Stake'}</span>
+                      <span className="text-white font-bold">{formatMoney(isSimMode ? calculateTotalStake() * simulations : calculateTotalStake(), currency)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-400">{isSimMode ? 'Potential Win (per bet)' : 'Potential Win'}</span>
-                      <span className="text-green-400 font-bold">KES {calculatePotentialWin().toFixed(2)}</span>
+                      <span className="text-green-400 font-bold">{formatMoney(calculatePotentialWin(), currency)}</span>
                     </div>
                   </div>
 
-                  <div className="flex gap-2">
+                  {hasPendingOddsChanges && (
                     <Button
-                      onClick={() => {
-                        setBetSlip([])
-                        setIsBetslipExpanded(false)
-                      }}
-                      className="flex-1 bg-gray-700 hover:bg-gray-600 text-white"
+                      onClick={acceptOddsChanges}
+                      className="w-full mb-2 bg-yellow-600 hover:bg-yellow-700 text-white"
                     >
-                      Clear
+                      Accept Odds Changes ({pendingOddsChanges.length})
                     </Button>
+                  )}
+
+                  <div className="flex gap-2">
+                    {simulationProgress ? (
+                      <Button
+                        onClick={cancelSimulation}
+                        className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+                      >
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => {
+                          setBetSlip([])
+                          setIsBetslipExpanded(false)
+                        }}
+                        className="flex-1 bg-gray-700 hover:bg-gray-600 text-white"
+                      >
+                        Clear
+                      </Button>
+                    )}
                     <Button
                       onClick={runSimulation}
-                      disabled={isSimulating || betSlip.length === 0}
+                      disabled={isSimulating || betSlip.length === 0 || hasInvalidSameGameMulti || hasPendingOddsChanges}
                       className={`flex-1 ${isSimMode ? 'bg-yellow-500 hover:bg-yellow-600 text-black' : 'bg-green-600 hover:bg-green-700 text-white'} font-bold py-3`}
                     >
                       {isSimulating 
-                        ? (isSimMode ? 'Simulating...' : 'Placing...') 
+                        ? (isSimMode ? simulatingLabel : 'Placing...') 
                         : (isSimMode 
                             ? `Run ${simulations} Sim${simulations > 1 ? 's' : ''}`
-                            : `Place Bet KES ${stake.toFixed(2)}`
+                            : `Place Bet ${formatMoney(stake, currency)}`
                           )
                       }
                     </Button>
@@ -1494,10 +2506,62 @@ function App() {
               </div>
               
               <div className="p-4 space-y-4">
-                {simulationResults.map((result, idx) => (
+                {simulationSummary && (
+                  <div className="rounded-lg p-3 text-sm bg-yellow-900 text-yellow-300">
+                    Showing {simulationResults.length} simulation{simulationResults.length === 1 ? '' : 's'}: {simulationSummary}
+                  </div>
+                )}
+                {resultsReplay && (
+                  <div className="text-sm text-gray-400">
+                    Simulated with {describeSimulationParameters(resultsReplay.request)}
+                    {resultsReplay.engine === 'local' && ' (ignored by the local engine)'}
+                  </div>
+                )}
+                {simulationResults.length > 1 && (
+                  <div className="flex gap-2">
+                    {(['analytics', 'trials'] as const).map(view => (
+                      <button
+                        key={view}
+                        onClick={() => setResultsView(view)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                          resultsView === view ? 'bg-yellow-500 text-black' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        {view === 'analytics' ? 'Analytics' : `Trials (${simulationResults.length})`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {simulationResults.length > 1 && resultsView === 'analytics' && (
+                  <SimulationAnalytics trials={trialSummaries} currency={currency} />
+                )}
+                {(simulationResults.length === 1 || resultsView === 'trials') && simulationResults.map((result, idx) => (
                   <Card key={idx} className="bg-gray-900 border-gray-700">
                     <div className="p-4">
-                      {result.matches && result.matches.length > 0 ? (
+                      {result.standings ? (
+                        <div className="mb-4">
+                          <div className="flex justify-between items-center mb-3">
+                            <h3 className="text-xl font-bold text-white">Season Simulation</h3>
+                            <div className={`text-sm font-bold ${result.bet_slip_won ? 'text-green-400' : 'text-red-400'}`}>
+                              {result.bet_slip_won ? '✓ BETSLIP WON' : '✗ BETSLIP LOST'}
+                            </div>
+                          </div>
+                          <div className="space-y-2 mb-3">
+                            {result.standings.map(table => (
+                              <div key={table.competition} className="bg-gray-800 rounded p-3">
+                                <div className="text-white font-medium mb-2">{table.competition}</div>
+                                <ol className="text-sm text-gray-300 space-y-1">
+                                  {table.standings.slice(0, 4).map((participant, position) => (
+                                    <li key={participant} className={position === 0 ? 'text-yellow-400 font-bold' : ''}>
+                                      {position + 1}. {participant}
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ) : result.matches && result.matches.length > 0 ? (
                         <div className="mb-4">
                           <div className="flex justify-between items-center mb-3">
                             <h3 className="text-xl font-bold text-white">Multi-Match Betslip</h3>
@@ -1538,6 +2602,7 @@ function App() {
                         <h4 className="text-lg font-semibold text-white mb-3">Your Betslip</h4>
                         {result.selections && result.selections.map((sel, selIdx) => {
                           const betResult = result.bet_results?.[selIdx]
+                          const handicap = getHandicapSettlement(result, sel)
                           return (
                             <div key={selIdx} className="mb-2 pb-2 border-b border-gray-700 last:border-0">
                               <div className="flex justify-between items-center">
@@ -1547,9 +2612,17 @@ function App() {
                                     {sel?.match || 'Unknown Match'} @ {(sel?.odds || 0).toFixed(2)}x
                                   </div>
                                 </div>
-                                <div className={`font-bold ${betResult?.won ? 'text-green-400' : 'text-red-400'}`}>
-                                  {betResult?.won ? '✓' : '✗'}
-                                </div>
+                                {handicap ? (
+                                  <div className={`text-sm font-bold ${
+                                    handicap.returnPerUnit > 1 ? 'text-green-400' : handicap.returnPerUnit === 1 ? 'text-gray-300' : 'text-red-400'
+                                  }`}>
+                                    {getHandicapOutcomeLabel(handicap.outcome)}
+                                  </div>
+                                ) : (
+                                  <div className={`font-bold ${betResult?.won ? 'text-green-400' : 'text-red-400'}`}>
+                                    {betResult?.won ? '✓' : '✗'}
+                                  </div>
+                                )}
                               </div>
                             </div>
                           )
@@ -1561,18 +2634,18 @@ function App() {
                           <div className="grid grid-cols-2 gap-3">
                             <div>
                               <div className="text-sm text-gray-400">Stake</div>
-                              <div className="text-white font-medium">KES {(result.total_stake || result.stake || 0).toFixed(2)}</div>
+                              <div className="text-white font-medium">{formatMoney(result.total_stake || result.stake || 0, currency)}</div>
                             </div>
                             <div>
                               <div className="text-sm text-gray-400">Payout</div>
                               <div className={`font-medium ${result.bet_slip_won ? 'text-green-400' : 'text-red-400'}`}>
-                                KES {(result.total_payout || result.actual_payout || 0).toFixed(2)}
+                                {formatMoney(result.total_payout || result.actual_payout || 0, currency)}
                               </div>
                             </div>
                             <div>
                               <div className="text-sm text-gray-400">Profit/Loss</div>
                               <div className={`font-bold ${((result.total_profit || result.profit || 0) >= 0) ? 'text-green-400' : 'text-red-400'}`}>
-                                KES {(result.total_profit || result.profit || 0).toFixed(2)}
+                                {formatMoney(result.total_profit || result.profit || 0, currency)}
                               </div>
                             </div>
                             {result.total_odds && (
@@ -1581,9 +2654,27 @@ function App() {
                                 <div className="text-white font-medium">{(result.total_odds || 1).toFixed(2)}x</div>
                               </div>
                             )}
+                            {result.system && (
+                              <div>
+                                <div className="text-sm text-gray-400">{result.system.label}</div>
+                                <div className="text-white font-medium">{result.system.linesWon} of {result.system.lines} lines won</div>
+                              </div>
+                            )}
                           </div>
                         </div>
                       )}
+
+                      {result.replay && (
+                        <div className="flex justify-between items-center mt-3 text-sm text-gray-400">
+                          <span>Seed {result.replay.seed} · {result.replay.engine === 'local' ? 'Local engine' : 'Simulation API'}</span>
+                          <button
+                            onClick={() => replaySimulation(result.replay!)}
+                            className="px-3 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                          >
+                            Replay
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </Card>
                 ))}
@@ -1634,16 +2725,16 @@ function App() {
                           <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3 pt-3 border-t border-gray-700">
                             <div>
                               <div className="text-xs text-gray-400">Stake</div>
-                              <div className="text-white font-medium">KES {(bet.total_stake || 0).toFixed(2)}</div>
+                              <div className="text-white font-medium">{formatMoney(bet.total_stake || 0, currency)}</div>
                             </div>
                             <div>
                               <div className="text-xs text-gray-400">Payout</div>
-                              <div className="text-green-400 font-medium">KES {(bet.total_payout || 0).toFixed(2)}</div>
+                              <div className="text-green-400 font-medium">{formatMoney(bet.total_payout || 0, currency)}</div>
                             </div>
                             <div>
                               <div className="text-xs text-gray-400">Profit</div>
                               <div className={`font-medium ${(bet.total_profit || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                KES {(bet.total_profit || 0).toFixed(2)}
+                                {formatMoney(bet.total_profit || 0, currency)}
                               </div>
                             </div>
                             <div>
@@ -1651,6 +2742,15 @@ function App() {
                               <div className="text-white font-medium">{((bet.configured_rtp || 0) * 100).toFixed(1)}%</div>
                             </div>
                           </div>
+                          <div className="flex justify-between items-center mt-3 text-sm text-gray-400">
+                            <span>Seed {bet.seed}{bet.volatility && ` · ${getVolatilityLabel(bet.volatility)} volatility`}</span>
+                            <button
+                              onClick={() => replayHistoryEntry(bet)}
+                              className="px-3 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                            >
+                              Replay
+                            </button>
+                          </div>
                         </div>
                       </Card>
                     ))}
@@ -1660,6 +2760,40 @@ function App() {
             </div>
           </div>
         )}
+
+        {/* Wallet Modal */}
+        {showWallet && (
+          <WalletPanel
+            entries={ledger}
+            balances={balances}
+            storedBalance={storedBalance}
+            currency={currency}
+            onDeposit={deposit}
+            onWithdraw={withdraw}
+            onClose={() => setShowWallet(false)}
+          />
+        )}
+
+        {/* Responsible Gambling Modal */}
+        {showResponsibleGambling && (
+          <ResponsibleGamblingPanel
+            settings={responsibleGambling}
+            entries={ledger}
+            currency={currency}
+            onChange={updateResponsibleGambling}
+            onClose={() => setShowResponsibleGambling(false)}
+          />
+        )}
+
+        {/* Settings Modal */}
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            knownBookmakers={knownBookmakers}
+            onChange={setSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
     </div>
   )
 }
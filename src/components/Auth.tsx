@@ -2,18 +2,25 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { MIN_PASSWORD_LENGTH } from '../utils/authProvider'
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, getStartingBalance } from '../utils/wallet'
 
 interface AuthProps {
-  onLogin: (username: string) => void
-  onRegister: (username: string) => void
+  /** Rejects with a message to show when the credentials are refused */
+  onLogin: (username: string, password: string) => Promise<void>
+  /** `currency` is the new wallet's, fixed from then on */
+  onRegister: (username: string, password: string, currency: string) => Promise<void>
 }
 
 export function Auth({ onLogin, onRegister }: AuthProps) {
   const [isLogin, setIsLogin] = useState(true)
   const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
   const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
 
@@ -27,20 +34,17 @@ export function Auth({ onLogin, onRegister }: AuthProps) {
       return
     }
 
-    if (isLogin) {
-      const existingUser = localStorage.getItem(`balance_${username}`)
-      if (!existingUser) {
-        setError('User not found. Please register first.')
-        return
-      }
-      onLogin(username)
-    } else {
-      const existingUser = localStorage.getItem(`balance_${username}`)
-      if (existingUser) {
-        setError('Username already exists. Please login instead.')
-        return
-      }
-      onRegister(username)
+    if (!isLogin && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await (isLogin ? onLogin(username.trim(), password) : onRegister(username.trim(), password, currency))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed')
+      setIsSubmitting(false)
     }
   }
 
@@ -72,6 +76,40 @@ export function Auth({ onLogin, onRegister }: AuthProps) {
             />
           </div>
 
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+              Password
+            </label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+              className="bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+              autoComplete={isLogin ? 'current-password' : 'new-password'}
+            />
+          </div>
+
+          {!isLogin && (
+            <div>
+              <label htmlFor="currency" className="block text-sm font-medium text-gray-300 mb-2">
+                Currency
+              </label>
+              <select
+                id="currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 text-white p-2 rounded-md"
+              >
+                {CURRENCIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.value} · {option.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Your wallet stays in this currency</p>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-500 bg-opacity-10 border border-red-500 text-red-500 px-4 py-2 rounded text-sm">
               {error}
@@ -80,9 +118,10 @@ export function Auth({ onLogin, onRegister }: AuthProps) {
 
           <Button
             type="submit"
+            disabled={isSubmitting}
             className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-2"
           >
-            {isLogin ? 'Login' : 'Register'}
+            {isSubmitting ? 'Please wait...' : isLogin ? 'Login' : 'Register'}
           </Button>
 
           <div className="text-center">
@@ -92,6 +131,7 @@ export function Auth({ onLogin, onRegister }: AuthProps) {
                 setIsLogin(!isLogin)
                 setError('')
                 setUsername('')
+                setPassword('')
               }}
               className="text-sm text-blue-400 hover:text-blue-300"
             >
@@ -102,7 +142,7 @@ export function Auth({ onLogin, onRegister }: AuthProps) {
 
         <div className="mt-6 pt-6 border-t border-gray-700">
           <p className="text-xs text-gray-500 text-center">
-            New users start with KES 50,000 balance
+            New users start with {formatMoney(getStartingBalance(currency), currency)}
           </p>
         </div>
       </Card>
@@ -0,0 +1,35 @@
+export type BetSlipTab = 'multiple' | 'singles'
+
+interface BetSlipTabsProps {
+  tab: BetSlipTab
+  onChange: (tab: BetSlipTab) => void
+}
+
+const TABS: Array<{ value: BetSlipTab, label: string }> = [
+  { value: 'multiple', label: 'Multiple' },
+  { value: 'singles', label: 'Singles' }
+]
+
+/**
+ * Switch between one combined bet (accumulator or system bet) and a single
+ * bet per selection
+ */
+export function BetSlipTabs({ tab, onChange }: BetSlipTabsProps) {
+  return (
+    <div className="flex border-b border-gray-600 mb-3">
+      {TABS.map(({ value, label }) => (
+        <button
+          key={value}
+          onClick={() => onChange(value)}
+          className={`flex-1 pb-2 text-sm font-medium transition ${
+            tab === value
+              ? 'text-white border-b-2 border-green-500'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
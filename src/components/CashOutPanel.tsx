@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CashOutEvent } from '../types'
+import { formatMoney } from '../utils/wallet'
+
+interface CashOutPanelProps {
+  /** Current offer; null while a match on the bet is in play, undefined until priced */
+  offer: number | null | undefined
+  autoCashOutAt?: number
+  history: CashOutEvent[]
+  currency: string
+  onCashOut: (share: number) => void
+  onSetAutoCashOut: (target: number | undefined) => void
+}
+
+function describeEvent(event: CashOutEvent, currency: string): string {
+  if (event.type === 'cash_out') {
+    const portion = event.share === 1 ? 'Cashed out' : `Cashed out ${Math.round(event.share * 100)}%`
+    return `${portion}${event.isAuto ? ' (auto)' : ''} for ${formatMoney(event.amount, currency)}`
+  }
+  if (event.type === 'auto_cash_out_set') return `Auto cash-out set at ${formatMoney(event.target, currency)}`
+  return 'Auto cash-out cleared'
+}
+
+/**
+ * Cash-out controls for a pending bet: the full offer, a partial cash-out
+ * of a chosen share, an auto-cash-out target and the bet's cash-out history
+ */
+export function CashOutPanel({ offer, autoCashOutAt, history, currency, onCashOut, onSetAutoCashOut }: CashOutPanelProps) {
+  const [partialPercent, setPartialPercent] = useState(50)
+  const [target, setTarget] = useState(autoCashOutAt?.toString() || '')
+  const hasOffer = typeof offer === 'number' && offer > 0
+
+  return (
+    <div className="border-t border-gray-600 pt-2 mb-3 space-y-2">
+      <Button
+        onClick={() => onCashOut(1)}
+        disabled={!hasOffer}
+        className="w-full bg-yellow-600 hover:bg-yellow-700 text-white"
+      >
+        {hasOffer
+          ? `Cash Out ${formatMoney(offer, currency)}`
+          : offer === null ? 'Cash Out suspended' : offer === 0 ? 'No cash-out offer' : 'Pricing cash-out...'}
+      </Button>
+
+      {hasOffer && (
+        <div className="flex items-center gap-2 text-xs">
+          <input
+            type="range"
+            min={10}
+            max={90}
+            step={10}
+            value={partialPercent}
+            onChange={e => setPartialPercent(parseInt(e.target.value))}
+            className="flex-1"
+          />
+          <button
+            onClick={() => onCashOut(partialPercent / 100)}
+            className="px-2 py-1 rounded bg-gray-600 text-gray-200 hover:bg-gray-500 whitespace-nowrap"
+          >
+            {partialPercent}% for {formatMoney(offer * partialPercent / 100, currency)}
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-gray-400 whitespace-nowrap">Auto at {currency}</span>
+        <input
+          type="number"
+          min={0}
+          value={target}
+          onChange={e => setTarget(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-800 text-white px-2 py-1 rounded border border-gray-600"
+        />
+        <button
+          onClick={() => onSetAutoCashOut(parseFloat(target) > 0 ? parseFloat(target) : undefined)}
+          className="px-2 py-1 rounded bg-gray-600 text-gray-200 hover:bg-gray-500"
+        >
+          Set
+        </button>
+        {autoCashOutAt !== undefined && (
+          <button
+            onClick={() => {
+              setTarget('')
+              onSetAutoCashOut(undefined)
+            }}
+            className="px-2 py-1 rounded bg-gray-600 text-gray-200 hover:bg-gray-500"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <ul className="text-xs text-gray-400 space-y-1">
+          {history.map((event, idx) => (
+            <li key={idx}>
+              {new Date(event.at).toLocaleTimeString()} · {describeEvent(event, currency)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
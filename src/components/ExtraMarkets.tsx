@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { BetMarket, Match } from '../types'
+import { getWinningMarginLabel } from '../utils/marketGenerator'
+import { MARGIN_METHODS, MarginMethod, removeMargin } from '../utils/margin'
+import { getSportConfig } from '../utils/sports'
+
+interface ExtraMarketsProps {
+  match: Match
+  marginMethod: MarginMethod
+  onSelect: (market: BetMarket, side: string, odds: number, point?: number) => void
+}
+
+interface OddsButtonProps {
+  label: string
+  odds: number
+  onClick: () => void
+}
+
+function OddsButton({ label, odds, onClick }: OddsButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="bg-teal-600 hover:bg-teal-700 text-white rounded-lg p-2 font-bold transition text-xs"
+    >
+      <div className="text-xs mb-1 truncate">{label}</div>
+      <div>{(odds || 0).toFixed(2)}</div>
+    </button>
+  )
+}
+
+export function ExtraMarkets({ match, marginMethod, onSelect }: ExtraMarketsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const hasExtraMarkets = match.alternateTotals || match.doubleChance || match.drawNoBet || match.winningMargin || match.oddEven
+  if (!hasExtraMarkets) return null
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-2">
+      <CollapsibleTrigger className="w-full flex items-center justify-between text-gray-400 hover:text-white text-xs font-medium py-2">
+        <span>More markets</span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-1">
+        {match.doubleChance && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Double Chance</div>
+            <div className="grid grid-cols-3 gap-2">
+              <OddsButton label="1X" odds={match.doubleChance.homeOrDraw} onClick={() => onSelect('double_chance', '1X', match.doubleChance!.homeOrDraw)} />
+              <OddsButton label="X2" odds={match.doubleChance.drawOrAway} onClick={() => onSelect('double_chance', 'X2', match.doubleChance!.drawOrAway)} />
+              <OddsButton label="12" odds={match.doubleChance.homeOrAway} onClick={() => onSelect('double_chance', '12', match.doubleChance!.homeOrAway)} />
+            </div>
+          </div>
+        )}
+
+        {match.drawNoBet && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Draw No Bet</div>
+            <div className="grid grid-cols-2 gap-2">
+              <OddsButton label={match.homeTeam} odds={match.drawNoBet.home} onClick={() => onSelect('draw_no_bet', 'home', match.drawNoBet!.home)} />
+              <OddsButton label={match.awayTeam} odds={match.drawNoBet.away} onClick={() => onSelect('draw_no_bet', 'away', match.drawNoBet!.away)} />
+            </div>
+          </div>
+        )}
+
+        {match.alternateTotals && match.alternateTotals.length > 0 && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Total {getSportConfig(match).scoreUnit}</div>
+            <div className="space-y-2">
+              {match.alternateTotals.map(line => (
+                <div key={line.point} className="grid grid-cols-2 gap-2">
+                  <OddsButton label={`Over ${line.point}`} odds={line.over} onClick={() => onSelect('totals', 'over', line.over, line.point)} />
+                  <OddsButton label={`Under ${line.point}`} odds={line.under} onClick={() => onSelect('totals', 'under', line.under, line.point)} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {match.winningMargin && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Winning Margin</div>
+            <div className="grid grid-cols-3 gap-2">
+              {match.winningMargin.map(item => (
+                <OddsButton
+                  key={item.outcome}
+                  label={getWinningMarginLabel(item.outcome, match.homeTeam, match.awayTeam)}
+                  odds={item.odds}
+                  onClick={() => onSelect('winning_margin', item.outcome, item.odds)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {match.oddEven && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Odd/Even Goals</div>
+            <div className="grid grid-cols-2 gap-2">
+              <OddsButton label="Odd" odds={match.oddEven.odd} onClick={() => onSelect('odd_even', 'odd', match.oddEven!.odd)} />
+              <OddsButton label="Even" odds={match.oddEven.even} onClick={() => onSelect('odd_even', 'even', match.oddEven!.even)} />
+            </div>
+          </div>
+        )}
+
+        {match.h2h && (
+          <div>
+            <div className="text-gray-400 text-xs mb-2 font-medium">Fair {getSportConfig(match).h2hLabel} Probabilities</div>
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-medium py-1">Method</th>
+                  <th className="text-right font-medium py-1">1</th>
+                  {match.h2h.draw && <th className="text-right font-medium py-1">X</th>}
+                  <th className="text-right font-medium py-1">2</th>
+                </tr>
+              </thead>
+              <tbody>
+                {MARGIN_METHODS.map(method => {
+                  const prices = match.h2h!.draw
+                    ? [match.h2h!.home, match.h2h!.draw, match.h2h!.away]
+                    : [match.h2h!.home, match.h2h!.away]
+                  return (
+                    <tr key={method.value} className={method.value === marginMethod ? 'text-green-400 font-bold' : ''}>
+                      <td className="py-1">{method.label}</td>
+                      {removeMargin(prices, method.value).map((p, idx) => (
+                        <td key={idx} className="text-right py-1">{(p * 100).toFixed(1)}%</td>
+                      ))}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { Check, ChevronsUpDown } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { League } from '../types'
+import { SPORTS } from '../utils/sports'
+
+interface LeaguePickerProps {
+  leagues: League[]
+  activeLeagueKey: string
+  onChange: (leagueKey: string) => void
+}
+
+export function LeaguePicker({ leagues, activeLeagueKey, onChange }: LeaguePickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const activeLeague = leagues.find(league => league.key === activeLeagueKey)
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button className="w-full flex items-center justify-between bg-gray-700 hover:bg-gray-600 text-white rounded-lg px-4 py-2 font-medium transition">
+          <span className="truncate">{activeLeague?.title || 'Select a league'}</span>
+          <ChevronsUpDown size={16} className="ml-2 shrink-0 opacity-60" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0 bg-gray-800 border-gray-700" align="start">
+        <Command className="bg-gray-800 text-white">
+          <CommandInput placeholder={`Search ${leagues.length} leagues...`} className="text-white" />
+          <CommandList>
+            <CommandEmpty className="py-4 text-center text-sm text-gray-400">No league found.</CommandEmpty>
+            {Object.values(SPORTS).map(sport => {
+              const sportLeagues = leagues.filter(league => league.sport === sport.sport)
+              if (sportLeagues.length === 0) return null
+
+              return (
+                <CommandGroup key={sport.sport} heading={sport.label} className="text-gray-300 [&_[cmdk-group-heading]]:text-gray-500">
+                  {sportLeagues.map(league => (
+                    <CommandItem
+                      key={league.key}
+                      value={`${league.title} ${league.key} ${sport.label}`}
+                      onSelect={() => {
+                        onChange(league.key)
+                        setIsOpen(false)
+                      }}
+                      className="text-gray-300 data-[selected=true]:bg-gray-700 data-[selected=true]:text-white"
+                    >
+                      <Check size={14} className={league.key === activeLeagueKey ? 'text-green-400' : 'opacity-0'} />
+                      {league.title}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )
+            })}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,137 @@
+import { Fragment } from 'react'
+import { BarChart3 } from 'lucide-react'
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle, DrawerTrigger } from '@/components/ui/drawer'
+import { Match } from '../types'
+import { formatHandicap } from '../utils/asianHandicap'
+import { consensusH2h, consensusTotals } from '../utils/consensus'
+import { MarginMethod } from '../utils/margin'
+
+interface OddsComparisonDrawerProps {
+  match: Match
+  marginMethod: MarginMethod
+}
+
+function PriceCell({ price, isBest }: { price?: number, isBest: boolean }) {
+  return (
+    <td className={`text-right py-2 px-2 ${isBest ? 'text-green-400 font-bold' : 'text-gray-300'}`}>
+      {price ? price.toFixed(2) : '-'}
+    </td>
+  )
+}
+
+export function OddsComparisonDrawer({ match, marginMethod }: OddsComparisonDrawerProps) {
+  const bookmakers = match.bookmakers || []
+  if (bookmakers.length === 0) return null
+
+  // Bookmakers are compared on what they quoted, not a derived moneyline
+  const bestH2h = match.regulationH2h || match.h2h
+  const hasDraw = !!bestH2h?.draw
+  const spreadLine = match.spread?.point
+  const totalsLine = match.totals?.point
+
+  const consensusRows = (['median', 'fair_average'] as const).map(method => ({
+    label: method === 'median' ? 'Consensus (Median)' : 'Consensus (Fair Avg)',
+    h2h: consensusH2h(bookmakers, method, marginMethod),
+    totals: totalsLine !== undefined ? consensusTotals(bookmakers, totalsLine, method, marginMethod) : undefined
+  }))
+
+  return (
+    <Drawer>
+      <DrawerTrigger asChild>
+        <button className="flex items-center gap-1 text-xs text-gray-400 hover:text-white">
+          <BarChart3 size={14} />
+          Compare odds ({bookmakers.length})
+        </button>
+      </DrawerTrigger>
+      <DrawerContent className="bg-gray-800 border-gray-700 max-h-[85vh]">
+        <DrawerHeader>
+          <DrawerTitle className="text-white">{match.homeTeam} vs {match.awayTeam}</DrawerTitle>
+          <DrawerDescription className="text-gray-400">
+            Prices from {bookmakers.length} bookmaker{bookmakers.length > 1 ? 's' : ''}. Best price per outcome highlighted.
+          </DrawerDescription>
+        </DrawerHeader>
+        <div className="px-4 pb-6 overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs border-b border-gray-700">
+                <th className="text-left py-2 px-2 font-medium">Bookmaker</th>
+                <th className="text-right py-2 px-2 font-medium">1</th>
+                {hasDraw && <th className="text-right py-2 px-2 font-medium">X</th>}
+                <th className="text-right py-2 px-2 font-medium">2</th>
+                {spreadLine !== undefined && (
+                  <>
+                    <th className="text-right py-2 px-2 font-medium">AH {formatHandicap(spreadLine)}</th>
+                    <th className="text-right py-2 px-2 font-medium">AH {formatHandicap(-spreadLine)}</th>
+                  </>
+                )}
+                {totalsLine !== undefined && (
+                  <>
+                    <th className="text-right py-2 px-2 font-medium">O {totalsLine}</th>
+                    <th className="text-right py-2 px-2 font-medium">U {totalsLine}</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {bookmakers.map(bookmaker => {
+                const spread = bookmaker.spread?.point === spreadLine ? bookmaker.spread : undefined
+                const totals = bookmaker.totals?.point === totalsLine ? bookmaker.totals : undefined
+                return (
+                  <Fragment key={bookmaker.key}>
+                    <tr className="border-b border-gray-700">
+                      <td className="py-2 px-2 text-white">{bookmaker.title}</td>
+                      <PriceCell price={bookmaker.h2h?.home} isBest={bookmaker.h2h?.home === bestH2h?.home} />
+                      {hasDraw && <PriceCell price={bookmaker.h2h?.draw} isBest={bookmaker.h2h?.draw === bestH2h?.draw} />}
+                      <PriceCell price={bookmaker.h2h?.away} isBest={bookmaker.h2h?.away === bestH2h?.away} />
+                      {spreadLine !== undefined && (
+                        <>
+                          <PriceCell price={spread?.home} isBest={!!spread && spread.home === match.spread?.home} />
+                          <PriceCell price={spread?.away} isBest={!!spread && spread.away === match.spread?.away} />
+                        </>
+                      )}
+                      {totalsLine !== undefined && (
+                        <>
+                          <PriceCell price={totals?.over} isBest={!!totals && totals.over === match.totals?.over} />
+                          <PriceCell price={totals?.under} isBest={!!totals && totals.under === match.totals?.under} />
+                        </>
+                      )}
+                    </tr>
+                    {bookmaker.h2hLay && (
+                      <tr className="border-b border-gray-700">
+                        <td className="py-2 px-2 text-pink-400 text-xs">Lay</td>
+                        <PriceCell price={bookmaker.h2hLay.home} isBest={false} />
+                        {hasDraw && <PriceCell price={bookmaker.h2hLay.draw} isBest={false} />}
+                        <PriceCell price={bookmaker.h2hLay.away} isBest={false} />
+                        <td colSpan={(spreadLine !== undefined ? 2 : 0) + (totalsLine !== undefined ? 2 : 0)} />
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+              {consensusRows.map(row => (
+                <tr key={row.label} className="border-b border-gray-700 bg-gray-900">
+                  <td className="py-2 px-2 text-yellow-400">{row.label}</td>
+                  <PriceCell price={row.h2h?.home} isBest={false} />
+                  {hasDraw && <PriceCell price={row.h2h?.draw} isBest={false} />}
+                  <PriceCell price={row.h2h?.away} isBest={false} />
+                  {spreadLine !== undefined && (
+                    <>
+                      <td />
+                      <td />
+                    </>
+                  )}
+                  {totalsLine !== undefined && (
+                    <>
+                      <PriceCell price={row.totals?.over} isBest={false} />
+                      <PriceCell price={row.totals?.under} isBest={false} />
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  )
+}
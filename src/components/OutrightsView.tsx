@@ -0,0 +1,57 @@
+import { Card } from '@/components/ui/card'
+import { Outright, OutrightPrice } from '../types'
+import { MarginMethod } from '../utils/margin'
+import { outrightProbabilities } from '../utils/outrights'
+
+interface OutrightsViewProps {
+  outrights: Outright[]
+  marginMethod: MarginMethod
+  onSelect: (outright: Outright, participant: OutrightPrice) => void
+}
+
+export function OutrightsView({ outrights, marginMethod, onSelect }: OutrightsViewProps) {
+  if (outrights.length === 0) {
+    return (
+      <div className="bg-gray-800 border border-gray-700 text-gray-400 p-4 rounded-lg text-center">
+        No outright prices available for this competition.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {outrights.map(outright => {
+        const probabilities = outrightProbabilities(outright, marginMethod)
+        return (
+          <Card key={outright.id} className="bg-gray-800 border-gray-700 p-4">
+            <div className="flex justify-between items-start mb-3">
+              <div>
+                <div className="text-white font-semibold text-base">{outright.competition}</div>
+                <div className="text-gray-400 text-xs">Outright winner · {outright.time}</div>
+              </div>
+              <div className="text-gray-500 text-xs">{outright.participants.length} participants</div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {outright.participants.map(participant => (
+                <button
+                  key={participant.name}
+                  onClick={() => onSelect(outright, participant)}
+                  className="bg-amber-600 hover:bg-amber-700 text-white rounded-lg p-3 font-bold transition text-left"
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-sm truncate">{participant.name}</span>
+                    <span>{participant.odds.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between items-center gap-2 text-[10px] font-normal opacity-75">
+                    <span className="truncate">{participant.bookmaker}</span>
+                    <span>{((probabilities[participant.name] || 0) * 100).toFixed(1)}%</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { LedgerEntry } from '../utils/betLedger'
+import {
+  COOLING_OFF_PERIODS,
+  getLimitUsage,
+  isBlocked,
+  LIMIT_KINDS,
+  LIMIT_PERIODS,
+  LimitKind,
+  LimitPeriod,
+  requestLimitChange,
+  ResponsibleGamblingSettings,
+  SELF_EXCLUSION_PERIODS,
+  SESSION_REMINDER_OPTIONS,
+  startBlock
+} from '../utils/responsibleGambling'
+import { formatMoney } from '../utils/wallet'
+
+interface ResponsibleGamblingPanelProps {
+  settings: ResponsibleGamblingSettings
+  entries: LedgerEntry[]
+  currency: string
+  onChange: (settings: ResponsibleGamblingSettings) => void
+  onClose: () => void
+}
+
+interface LimitRowProps {
+  kind: LimitKind
+  period: LimitPeriod
+  label: string
+  settings: ResponsibleGamblingSettings
+  entries: LedgerEntry[]
+  currency: string
+  onChange: (settings: ResponsibleGamblingSettings) => void
+}
+
+function LimitRow({ kind, period, label, settings, entries, currency, onChange }: LimitRowProps) {
+  const [amount, setAmount] = useState('')
+  const limit = settings.limits[kind][period]
+  const pending = settings.pendingChanges.find(change => change.kind === kind && change.period === period)
+  const used = getLimitUsage(entries, kind, period)
+
+  const handleSet = () => {
+    const value = parseFloat(amount)
+    if (!(value > 0)) return
+    setAmount('')
+    onChange(requestLimitChange(settings, kind, period, value))
+  }
+
+  return (
+    <tr className="border-b border-gray-700 text-gray-300">
+      <td className="py-2">{label}</td>
+      <td className="py-2">
+        {limit === undefined ? <span className="text-gray-500">None</span> : formatMoney(limit, currency)}
+        {pending && (
+          <div className="text-xs text-yellow-400">
+            {pending.amount === undefined ? 'Removed' : formatMoney(pending.amount, currency)} from {new Date(pending.effectiveAt).toLocaleString()}
+          </div>
+        )}
+      </td>
+      <td className={`py-2 ${limit !== undefined && used >= limit ? 'text-red-400' : ''}`}>{formatMoney(used, currency)}</td>
+      <td className="py-2">
+        <div className="flex gap-1 justify-end">
+          <input
+            type="number"
+            min="0"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            className="w-24 bg-gray-700 text-white px-2 py-1 rounded"
+          />
+          <button onClick={handleSet} className="px-2 py-1 rounded bg-gray-600 text-gray-200 hover:bg-gray-500">
+            Set
+          </button>
+          {limit !== undefined && (
+            <button
+              onClick={() => onChange(requestLimitChange(settings, kind, period, undefined))}
+              className="px-2 py-1 rounded bg-gray-600 text-gray-200 hover:bg-gray-500"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </td>
+    </tr>
+  )
+}
+
+/**
+ * Responsible-gambling controls: deposit, loss and stake limits with what
+ * has been used this period, the session reminder, and cooling-off and
+ * self-exclusion
+ */
+export function ResponsibleGamblingPanel({ settings, entries, currency, onChange, onClose }: ResponsibleGamblingPanelProps) {
+  const blocked = isBlocked(settings)
+
+  const handleBlock = (reason: 'cooling_off' | 'self_exclusion', label: string, duration: number) => {
+    const action = reason === 'self_exclusion' ? 'Self-exclude' : 'Take a break'
+    if (!confirm(`${action} for ${label}? You won't be able to bet, simulate or deposit until it ends, and it can't be cancelled.`)) return
+    onChange(startBlock(settings, reason, duration))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-gray-800 border-b border-gray-700 p-4 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">Responsible Gambling</h2>
+          <Button onClick={onClose} className="bg-red-600 hover:bg-red-700">
+            Close
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {blocked && (
+            <div className="rounded-lg p-3 text-sm bg-red-900 text-red-300">
+              {settings.blockReason === 'self_exclusion' ? 'You are self-excluded' : 'You are on a cooling-off break'} until{' '}
+              {new Date(settings.blockedUntil!).toLocaleString()}.
+            </div>
+          )}
+
+          {LIMIT_KINDS.map(({ value: kind, label }) => (
+            <div key={kind}>
+              <h3 className="text-lg font-semibold text-white mb-2">{label} Limits</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left border-b border-gray-700">
+                    <th className="py-2">Period</th>
+                    <th className="py-2">Limit</th>
+                    <th className="py-2">Used</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {LIMIT_PERIODS.map(period => (
+                    <LimitRow
+                      key={period.value}
+                      kind={kind}
+                      period={period.value}
+                      label={period.label}
+                      settings={settings}
+                      entries={entries}
+                      currency={currency}
+                      onChange={onChange}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Lower limits apply straight away. Raising or removing a limit takes effect after 24 hours.
+          </p>
+
+          <div>
+            <label className="text-gray-400 text-sm block mb-1">Session reminder</label>
+            <select
+              value={settings.sessionReminderMinutes}
+              onChange={e => onChange({ ...settings, sessionReminderMinutes: parseInt(e.target.value) })}
+              className="bg-gray-700 text-white p-2 rounded-lg"
+            >
+              {SESSION_REMINDER_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'Off' : `Every ${minutes} minutes`}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-2">Take a Break</h3>
+            <div className="flex flex-wrap gap-2">
+              {COOLING_OFF_PERIODS.map(({ label, duration }) => (
+                <Button
+                  key={label}
+                  onClick={() => handleBlock('cooling_off', label, duration)}
+                  className="bg-gray-600 hover:bg-gray-500 text-white"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-2">Self-Exclusion</h3>
+            <div className="flex flex-wrap gap-2">
+              {SELF_EXCLUSION_PERIODS.map(({ label, duration }) => (
+                <Button
+                  key={label}
+                  onClick={() => handleBlock('self_exclusion', label, duration)}
+                  className="bg-red-800 hover:bg-red-900 text-white"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { SameGameMultiPrice } from '../utils/sameGameMulti'
+
+interface SameGameMultiSummaryProps {
+  match: string
+  legs: Array<{ odds: number }>
+  price: SameGameMultiPrice
+}
+
+/**
+ * Bet slip row showing a same-game multi's correlated price next to the
+ * price its legs would have multiplied out to
+ */
+export function SameGameMultiSummary({ match, legs, price }: SameGameMultiSummaryProps) {
+  const multipliedOdds = legs.reduce((acc, leg) => acc * leg.odds, 1)
+
+  return (
+    <div className="bg-gray-900 border border-yellow-500/40 p-3 rounded-lg">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="text-yellow-400 text-xs font-semibold">Same Game Multi · {legs.length} legs</div>
+          <div className="text-gray-400 text-xs">{match}</div>
+        </div>
+        {price.valid && (
+          <div className="text-right">
+            <div className="text-green-400 font-bold">{price.odds.toFixed(2)}</div>
+            <div className="text-gray-500 text-xs line-through">{multipliedOdds.toFixed(2)}</div>
+          </div>
+        )}
+      </div>
+      {!price.valid && (
+        <div className="text-red-400 text-xs mt-1">{price.reason}</div>
+      )}
+    </div>
+  )
+}
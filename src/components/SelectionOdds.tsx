@@ -0,0 +1,44 @@
+import { ArrowDown, ArrowUp } from 'lucide-react'
+
+interface SelectionOddsProps {
+  odds: number
+  /** Price before the last accepted change */
+  previousOdds?: number
+  /** New price waiting to be accepted */
+  changedOdds?: number
+}
+
+function Drift({ from, to }: { from: number, to: number }) {
+  return to > from
+    ? <ArrowUp size={14} className="text-green-400" />
+    : <ArrowDown size={14} className="text-red-400" />
+}
+
+/**
+ * A bet slip selection's price, with the direction it last moved or the
+ * change waiting to be accepted
+ */
+export function SelectionOdds({ odds, previousOdds, changedOdds }: SelectionOddsProps) {
+  if (changedOdds !== undefined) {
+    return (
+      <div className="flex items-center gap-1 font-bold">
+        <span className="text-gray-400 line-through">{odds.toFixed(2)}</span>
+        <span className={changedOdds > odds ? 'text-green-400' : 'text-red-400'}>{changedOdds.toFixed(2)}</span>
+        <Drift from={odds} to={changedOdds} />
+        <span className="text-yellow-400 text-xs font-medium ml-1">Price changed</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-green-400 font-bold">
+      {odds.toFixed(2)}
+      {previousOdds !== undefined && (
+        <>
+          <Drift from={previousOdds} to={odds} />
+          <span className="text-gray-500 text-xs font-normal">was {previousOdds.toFixed(2)}</span>
+        </>
+      )}
+    </div>
+  )
+}
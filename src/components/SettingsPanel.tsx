@@ -0,0 +1,274 @@
+import { Button } from '@/components/ui/button'
+import { MARGIN_METHODS } from '../utils/margin'
+import { clampMarketMargin, DEFAULT_MARKET_MARGINS, MARKET_MARGIN_FIELDS, MAX_MARKET_MARGIN } from '../utils/marketGenerator'
+import { PRICE_SOURCES } from '../utils/consensus'
+import { AppSettings, toOddsRequest } from '../utils/settings'
+import { EXTRA_ODDS_MARKETS, ODDS_REGIONS } from '../utils/oddsProvider'
+import { ODDS_CHANGE_POLICIES } from '../utils/oddsChanges'
+import { SIMULATION_ENGINES } from '../utils/simulationEngine'
+import { DEFAULT_FIXED_SEED } from '../utils/replays'
+
+interface SettingsPanelProps {
+  settings: AppSettings
+  /** Bookmakers seen in fetched odds, offered for the allow-list */
+  knownBookmakers: Array<{ key: string, title: string }>
+  onChange: (settings: AppSettings) => void
+  onClose: () => void
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+function ToggleChip({ label, isActive, onClick }: { label: string, isActive: boolean, onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
+        isActive
+          ? 'bg-green-600 text-white'
+          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+      }`}
+    >
+      {label}
+    </button>
+  )
+}
+
+export function SettingsPanel({ settings, knownBookmakers, onChange, onClose }: SettingsPanelProps) {
+  const request = toOddsRequest(settings)
+  // The Odds API charges one credit per market per region, and every
+  // group of 10 bookmakers counts as one region
+  const regionCount = request.bookmakers.length > 0
+    ? Math.ceil(request.bookmakers.length / 10)
+    : request.regions.length
+  const requestCost = regionCount * request.markets.length
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-gray-800 border-b border-gray-700 p-4 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">Settings</h2>
+          <Button onClick={onClose} className="bg-red-600 hover:bg-red-700">
+            Close
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Margin Removal</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              How bookmaker margin is removed when converting prices into the probabilities sent to the simulator and used for generated markets.
+            </p>
+            <div className="space-y-2">
+              {MARGIN_METHODS.map(method => (
+                <button
+                  key={method.value}
+                  onClick={() => onChange({ ...settings, marginMethod: method.value })}
+                  className={`w-full text-left p-3 rounded-lg transition ${
+                    settings.marginMethod === method.value
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <div className="font-medium">{method.label}</div>
+                  <div className="text-xs opacity-80">{method.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Generated Market Margins</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              Bookmaker margin added to markets priced from the score model, e.g. 5% prices a two-way market to a 105% book. Markets the bookmakers quote keep their own prices.
+            </p>
+            <div className="space-y-2">
+              {MARKET_MARGIN_FIELDS.map(field => (
+                <div key={field.value} className="flex items-center justify-between gap-3 bg-gray-700 p-3 rounded-lg">
+                  <div>
+                    <div className="font-medium text-gray-300">{field.label}</div>
+                    <div className="text-xs text-gray-400">{field.description}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max={MAX_MARKET_MARGIN * 100}
+                      step="0.5"
+                      value={Math.round(settings.marketMargins[field.value] * 1000) / 10}
+                      onChange={e => {
+                        const percent = Number(e.target.value)
+                        if (Number.isFinite(percent)) {
+                          onChange({ ...settings, marketMargins: { ...settings.marketMargins, [field.value]: clampMarketMargin(percent / 100) } })
+                        }
+                      }}
+                      className="w-20 bg-gray-800 text-white px-3 py-2 rounded-lg text-center"
+                    />
+                    <span className="text-gray-400 text-sm">%</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => onChange({ ...settings, marketMargins: DEFAULT_MARKET_MARGINS })}
+              className="mt-2 text-sm text-gray-400 hover:text-white underline"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Odds Request</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              Each league refresh costs {requestCost} API request{requestCost !== 1 ? 's' : ''} with these settings.
+            </p>
+
+            <div className="text-gray-300 text-sm font-medium mb-2">Regions</div>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {ODDS_REGIONS.map(region => (
+                <ToggleChip
+                  key={region.value}
+                  label={region.label}
+                  isActive={settings.oddsRegions.includes(region.value)}
+                  onClick={() => {
+                    const oddsRegions = toggle(settings.oddsRegions, region.value)
+                    if (oddsRegions.length > 0) {
+                      onChange({ ...settings, oddsRegions })
+                    }
+                  }}
+                />
+              ))}
+            </div>
+
+            <div className="text-gray-300 text-sm font-medium mb-2">Additional Markets</div>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {EXTRA_ODDS_MARKETS.map(market => (
+                <ToggleChip
+                  key={market.value}
+                  label={market.label}
+                  isActive={settings.extraOddsMarkets.includes(market.value)}
+                  onClick={() => onChange({ ...settings, extraOddsMarkets: toggle(settings.extraOddsMarkets, market.value) })}
+                />
+              ))}
+            </div>
+
+            <div className="text-gray-300 text-sm font-medium mb-1">Bookmakers</div>
+            <p className="text-xs text-gray-500 mb-2">
+              {settings.bookmakerAllowList.length > 0
+                ? 'Only the selected bookmakers are requested and shown (regions are ignored).'
+                : 'All bookmakers in the selected regions are shown. Select bookmakers to restrict the list.'}
+            </p>
+            {knownBookmakers.length === 0 ? (
+              <div className="text-sm text-gray-500">Load a league to see its bookmakers.</div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {knownBookmakers.map(bookmaker => (
+                  <ToggleChip
+                    key={bookmaker.key}
+                    label={bookmaker.title}
+                    isActive={settings.bookmakerAllowList.includes(bookmaker.key)}
+                    onClick={() => onChange({ ...settings, bookmakerAllowList: toggle(settings.bookmakerAllowList, bookmaker.key) })}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Simulation Prices</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              Which bookmaker prices the score model is fitted to. Displayed odds are always the best available price.
+            </p>
+            <div className="space-y-2">
+              {PRICE_SOURCES.map(source => (
+                <button
+                  key={source.value}
+                  onClick={() => onChange({ ...settings, simulationPrices: source.value })}
+                  className={`w-full text-left p-3 rounded-lg transition ${
+                    settings.simulationPrices === source.value
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <div className="font-medium">{source.label}</div>
+                  <div className="text-xs opacity-80">{source.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Odds Changes</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              What happens when a price on the bet slip changes after a refresh. Bets can't be placed while a change is waiting to be accepted.
+            </p>
+            <div className="space-y-2">
+              {ODDS_CHANGE_POLICIES.map(policy => (
+                <button
+                  key={policy.value}
+                  onClick={() => onChange({ ...settings, oddsChangePolicy: policy.value })}
+                  className={`w-full text-left p-3 rounded-lg transition ${
+                    settings.oddsChangePolicy === policy.value
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <div className="font-medium">{policy.label}</div>
+                  <div className="text-xs opacity-80">{policy.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Simulation Engine</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              Where Sim-mode trials run. Both draw each match's score from the same score model and settle every market the bet slip offers.
+            </p>
+            <div className="space-y-2">
+              {SIMULATION_ENGINES.map(engine => (
+                <button
+                  key={engine.value}
+                  onClick={() => onChange({ ...settings, simulationEngine: engine.value })}
+                  className={`w-full text-left p-3 rounded-lg transition ${
+                    settings.simulationEngine === engine.value
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <div className="font-medium">{engine.label}</div>
+                  <div className="text-xs opacity-80">{engine.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Fixed Seed</h3>
+            <p className="text-sm text-gray-400 mb-3">
+              Start every batch of simulations from the same seed, so the same bet slip always gives the same results. Useful for demos and regression tests.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <ToggleChip label="Off" isActive={settings.fixedSeed === null} onClick={() => onChange({ ...settings, fixedSeed: null })} />
+              <ToggleChip
+                label="On"
+                isActive={settings.fixedSeed !== null}
+                onClick={() => onChange({ ...settings, fixedSeed: settings.fixedSeed ?? DEFAULT_FIXED_SEED })}
+              />
+              {settings.fixedSeed !== null && (
+                <input
+                  type="number"
+                  min="0"
+                  value={settings.fixedSeed}
+                  onChange={e => onChange({ ...settings, fixedSeed: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-32 bg-gray-700 text-white px-3 py-2 rounded-lg"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import { ReactNode, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import {
+  getBankrollCurve,
+  getProfitHistogram,
+  getRtpSummary,
+  getScorelineGrid,
+  getSelectionHitRates,
+  getSimulatedMatches,
+  TrialSummary
+} from '../utils/simulationAnalytics'
+import { formatMoney } from '../utils/wallet'
+
+interface SimulationAnalyticsProps {
+  trials: TrialSummary[]
+  currency: string
+}
+
+const AXIS_STYLE = { fill: '#9ca3af', fontSize: 12 }
+const TOOLTIP_STYLE = { backgroundColor: '#111827', border: '1px solid #374151', color: '#fff' }
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function ChartCard({ title, children }: { title: string, children: ReactNode }) {
+  return (
+    <div className="bg-gray-900 rounded-lg p-4">
+      <h3 className="text-lg font-semibold text-white mb-3">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Aggregate view of a batch of trials: RTP against the model, profit
+ * distribution, cumulative profit, hit rate per selection and simulated
+ * scorelines against the score model
+ */
+export function SimulationAnalytics({ trials, currency }: SimulationAnalyticsProps) {
+  const matches = getSimulatedMatches(trials)
+  const [matchId, setMatchId] = useState(matches[0]?.id)
+  const rtp = getRtpSummary(trials)
+  const histogram = getProfitHistogram(trials)
+  const bankroll = getBankrollCurve(trials)
+  const hitRates = getSelectionHitRates(trials).map(rate => ({
+    ...rate,
+    name: rate.label,
+    observed: rate.hitRate,
+    model: rate.modelProbability ?? rate.impliedProbability
+  }))
+  const grid = matchId ? getScorelineGrid(trials, matchId) : []
+  const maxCell = Math.max(0.001, ...grid.flat().map(cell => Math.max(cell.observed, cell.modelProbability)))
+  const isExpectedInRange = rtp?.expected !== undefined && rtp.expected >= rtp.lower && rtp.expected <= rtp.upper
+
+  return (
+    <div className="space-y-4">
+      {rtp && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className="text-xs text-gray-400">Trials</div>
+            <div className="text-white font-bold">{trials.length}</div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className="text-xs text-gray-400">Realised RTP</div>
+            <div className="text-white font-bold">{formatPercent(rtp.realised)}</div>
+            <div className="text-xs text-gray-500">95% CI {formatPercent(rtp.lower)} – {formatPercent(rtp.upper)}</div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className="text-xs text-gray-400">Expected RTP</div>
+            <div className="text-white font-bold">{rtp.expected !== undefined ? formatPercent(rtp.expected) : 'N/A'}</div>
+            <div className="text-xs text-gray-500">
+              {rtp.expected === undefined
+                ? 'Not available for outrights, same-game multis or system bets'
+                : isExpectedInRange ? 'Within the confidence interval' : 'Outside the confidence interval'}
+            </div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className="text-xs text-gray-400">Net Profit</div>
+            <div className={`font-bold ${bankroll[bankroll.length - 1].profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatMoney(bankroll[bankroll.length - 1].profit, currency)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ChartCard title="Profit per Trial">
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={histogram}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="label" tick={AXIS_STYLE} />
+            <YAxis allowDecimals={false} tick={AXIS_STYLE} />
+            <Tooltip
+              contentStyle={TOOLTIP_STYLE}
+              labelFormatter={(_, payload) => {
+                const bin = payload?.[0]?.payload
+                return bin ? `${formatMoney(bin.from, currency)} to ${formatMoney(bin.to, currency)}` : ''
+              }}
+            />
+            <Bar dataKey="count" name="Trials" fill="#eab308" />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Cumulative Profit">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={bankroll}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="trial" tick={AXIS_STYLE} />
+            <YAxis tick={AXIS_STYLE} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatMoney(value, currency)} labelFormatter={trial => `After trial ${trial}`} />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <Line type="monotone" dataKey="profit" name="Profit" stroke="#22c55e" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Hit Rate per Selection">
+        <ResponsiveContainer width="100%" height={Math.max(160, hitRates.length * 48)}>
+          <BarChart data={hitRates} layout="vertical" margin={{ left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis type="number" domain={[0, 1]} tickFormatter={formatPercent} tick={AXIS_STYLE} />
+            <YAxis type="category" dataKey="name" width={180} tick={AXIS_STYLE} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatPercent(value)} />
+            <Legend />
+            <Bar dataKey="observed" name="Simulated" fill="#eab308" />
+            <Bar dataKey="model" name="Model (implied for outrights)" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      {matches.length > 0 && matchId && (
+        <ChartCard title="Scorelines">
+          {matches.length > 1 && (
+            <select
+              value={matchId}
+              onChange={e => setMatchId(e.target.value)}
+              className="bg-gray-700 text-white p-2 rounded-lg mb-3"
+            >
+              {matches.map(match => (
+                <option key={match.id} value={match.id}>{match.label}</option>
+              ))}
+            </select>
+          )}
+          <div className="overflow-x-auto">
+            <table className="text-xs text-center">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="p-1">Home \ Away</th>
+                  {grid[0].map(cell => <th key={cell.away} className="p-1">{cell.away}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.map(row => (
+                  <tr key={row[0].home}>
+                    <th className="p-1 text-gray-400">{row[0].home}</th>
+                    {row.map(cell => (
+                      <td
+                        key={cell.away}
+                        className="p-1 w-20 text-white border border-gray-800"
+                        style={{ backgroundColor: `rgba(234, 179, 8, ${cell.observed / maxCell})` }}
+                        title={`${cell.home}-${cell.away}: simulated ${formatPercent(cell.observed)}, model ${formatPercent(cell.modelProbability)}`}
+                      >
+                        <div className="font-medium">{formatPercent(cell.observed)}</div>
+                        <div className="text-blue-300">{formatPercent(cell.modelProbability)}</div>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Each cell shows the share of trials ending in that score (shaded) and, in blue, its probability under the score model.
+          </p>
+        </ChartCard>
+      )}
+    </div>
+  )
+}
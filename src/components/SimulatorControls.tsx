@@ -0,0 +1,77 @@
+import { clampTargetRtp, SimulationControls, TARGET_RTP_MAX, TARGET_RTP_MIN, VOLATILITIES } from '../utils/simulationControls'
+import { SimulationEngineKind } from '../utils/simulationEngine'
+
+interface SimulatorControlsProps {
+  controls: SimulationControls
+  isAdmin: boolean
+  engine: SimulationEngineKind
+  onChange: (controls: SimulationControls) => void
+}
+
+/**
+ * Volatility picker for the Sim-mode bet slip, plus a target RTP for admins
+ */
+export function SimulatorControls({ controls, isAdmin, engine, onChange }: SimulatorControlsProps) {
+  const active = VOLATILITIES.find(level => level.value === controls.volatility)
+
+  return (
+    <div className="mb-3">
+      <label className="text-gray-400 text-sm block mb-1">Volatility</label>
+      <div className="flex gap-1 mb-1">
+        {VOLATILITIES.map(level => (
+          <button
+            key={level.value}
+            onClick={() => onChange({ ...controls, volatility: level.value })}
+            className={`flex-1 px-2 py-1 rounded text-xs font-medium transition ${
+              controls.volatility === level.value
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {level.label}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-gray-400">{active?.description}</div>
+
+      {isAdmin && (
+        <div className="mt-2">
+          <label className="text-gray-400 text-sm flex items-center justify-between mb-1">
+            <span>Target RTP (admin)</span>
+            <span className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={controls.targetRtp === null}
+                onChange={e => onChange({ ...controls, targetRtp: e.target.checked ? null : 0.95 })}
+              />
+              Server default
+            </span>
+          </label>
+          {controls.targetRtp !== null && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={Math.round(controls.targetRtp * 1000) / 10}
+                onChange={e => {
+                  const percent = Number(e.target.value)
+                  if (Number.isFinite(percent)) onChange({ ...controls, targetRtp: clampTargetRtp(percent / 100) })
+                }}
+                className="flex-1 bg-gray-700 text-white p-2 rounded-lg text-center"
+                min={TARGET_RTP_MIN * 100}
+                max={TARGET_RTP_MAX * 100}
+                step="0.5"
+              />
+              <span className="text-gray-400 text-sm">%</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {engine === 'local' && (
+        <div className="text-xs text-yellow-400 mt-1">
+          The local engine ignores these and draws from the score model
+        </div>
+      )}
+    </div>
+  )
+}
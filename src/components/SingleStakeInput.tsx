@@ -0,0 +1,29 @@
+import { formatMoney } from '../utils/wallet'
+
+interface SingleStakeInputProps {
+  stake: number
+  odds: number
+  currency: string
+  onChange: (stake: number) => void
+}
+
+/**
+ * Stake for one selection in the singles tab, with its potential return
+ */
+export function SingleStakeInput({ stake, odds, currency, onChange }: SingleStakeInputProps) {
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      <input
+        type="number"
+        value={stake}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value)))}
+        className="w-24 bg-gray-800 text-white p-1 rounded text-sm"
+        min="0"
+        aria-label={`Stake (${currency})`}
+      />
+      <span className="flex-1 text-right text-xs text-gray-400">
+        Returns <span className="text-green-400 font-bold">{formatMoney(stake * odds, currency)}</span>
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { isSystemBetAvailable, SYSTEM_BETS, SystemBet } from '../utils/systemBets'
+
+interface SystemBetSelectorProps {
+  bet: SystemBet
+  /** Matches and outrights on the slip */
+  units: number
+  lines: number
+  onChange: (bet: SystemBet) => void
+}
+
+/**
+ * Bet type picker for the bet slip, offering only the bets the slip's
+ * number of selections can make
+ */
+export function SystemBetSelector({ bet, units, lines, onChange }: SystemBetSelectorProps) {
+  const available = SYSTEM_BETS.filter(definition =>
+    isSystemBetAvailable({ type: definition.value, size: Math.min(bet.size || 2, units) }, units)
+  )
+  const active = SYSTEM_BETS.find(definition => definition.value === bet.type)
+  const size = Math.min(bet.size || 2, units)
+
+  return (
+    <div className="mb-3">
+      <label className="text-gray-400 text-sm block mb-1">Bet Type</label>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {available.map(definition => (
+          <button
+            key={definition.value}
+            onClick={() => onChange({ type: definition.value, size })}
+            className={`px-2 py-1 rounded text-xs font-medium transition ${
+              bet.type === definition.value
+                ? 'bg-green-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {definition.label}
+          </button>
+        ))}
+      </div>
+      {bet.type === 'custom' && (
+        <div className="flex items-center gap-2 mb-2">
+          <button
+            onClick={() => onChange({ ...bet, size: Math.max(1, size - 1) })}
+            className="bg-gray-700 text-white px-3 py-1 rounded-lg"
+          >
+            -
+          </button>
+          <span className="flex-1 text-center text-white text-sm">{size} from {units}</span>
+          <button
+            onClick={() => onChange({ ...bet, size: Math.min(units, size + 1) })}
+            className="bg-gray-700 text-white px-3 py-1 rounded-lg"
+          >
+            +
+          </button>
+        </div>
+      )}
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{active?.description}</span>
+        <span>{lines} line{lines === 1 ? '' : 's'}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button'
+
+interface SystemBetSettlementProps {
+  selections: Array<{ matchId: string, match: string }>
+  unitWon: Record<string, boolean>
+  onMark: (unitKey: string, won: boolean) => void
+  onSettle: () => void
+}
+
+/**
+ * Manual settlement of a pending system bet: each match is marked won or
+ * lost, then every line is settled from those results
+ */
+export function SystemBetSettlement({ selections, unitWon, onMark, onSettle }: SystemBetSettlementProps) {
+  const unitKeys = Array.from(new Set(selections.map(sel => sel.matchId)))
+
+  return (
+    <div className="space-y-2">
+      {unitKeys.map(unitKey => (
+        <div key={unitKey} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-gray-300 truncate">{selections.find(sel => sel.matchId === unitKey)?.match}</span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => onMark(unitKey, true)}
+              className={`px-2 py-1 rounded ${unitWon[unitKey] === true ? 'bg-green-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+            >
+              Won
+            </button>
+            <button
+              onClick={() => onMark(unitKey, false)}
+              className={`px-2 py-1 rounded ${unitWon[unitKey] === false ? 'bg-red-600 text-white' : 'bg-gray-600 text-gray-300'}`}
+            >
+              Lost
+            </button>
+          </div>
+        </div>
+      ))}
+      <Button
+        onClick={onSettle}
+        disabled={unitKeys.some(unitKey => unitWon[unitKey] === undefined)}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        Settle
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { ReactNode, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { Match } from '../types'
+
+interface VirtualMatchListProps {
+  matches: Match[]
+  renderMatch: (match: Match) => ReactNode
+  /** Height assumed for a match card until it has been measured */
+  estimatedMatchHeight?: number
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number
+}
+
+type ListRow =
+  | { kind: 'date', key: string, label: string }
+  | { kind: 'match', key: string, match: Match }
+
+const DATE_HEADER_HEIGHT = 40
+
+function dateLabel(date: Date): string {
+  const today = new Date()
+  const tomorrow = new Date()
+  tomorrow.setDate(today.getDate() + 1)
+
+  if (date.toDateString() === today.toDateString()) return 'Today'
+  if (date.toDateString() === tomorrow.toDateString()) return 'Tomorrow'
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })
+}
+
+/**
+ * Order matches by kick-off and insert a header row before each new date
+ * Matches without a kick-off time (e.g. from older caches) go last
+ */
+function groupByDate(matches: Match[]): ListRow[] {
+  const sorted = [...matches].sort((a, b) => {
+    const timeA = a.commenceTime ? Date.parse(a.commenceTime) : Infinity
+    const timeB = b.commenceTime ? Date.parse(b.commenceTime) : Infinity
+    return timeA - timeB
+  })
+
+  const rows: ListRow[] = []
+  let currentLabel: string | null = null
+  sorted.forEach(match => {
+    const label = match.commenceTime ? dateLabel(new Date(match.commenceTime)) : 'Upcoming'
+    if (label !== currentLabel) {
+      rows.push({ kind: 'date', key: `date-${label}`, label })
+      currentLabel = label
+    }
+    rows.push({ kind: 'match', key: match.id, match })
+  })
+  return rows
+}
+
+function MeasuredRow({ top, onResize, children }: { top: number, onResize: (height: number) => void, children: ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null)
+  const onResizeRef = useRef(onResize)
+  onResizeRef.current = onResize
+
+  useLayoutEffect(() => {
+    const element = ref.current
+    if (!element) return
+    const observer = new ResizeObserver(() => onResizeRef.current(element.offsetHeight))
+    observer.observe(element)
+    onResizeRef.current(element.offsetHeight)
+    return () => observer.disconnect()
+  }, [])
+
+  return (
+    <div ref={ref} className="absolute left-0 right-0" style={{ top }}>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Match list grouped by date that only mounts the cards near the viewport
+ *
+ * The page itself scrolls, so visibility is worked out from the window scroll
+ * position. Card heights vary (e.g. expanded "More markets") and are
+ * measured as they render; unmeasured cards use the estimate.
+ */
+export function VirtualMatchList({ matches, renderMatch, estimatedMatchHeight = 520, overscan = 800 }: VirtualMatchListProps) {
+  const rows = useMemo(() => groupByDate(matches), [matches])
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [heights, setHeights] = useState<Record<string, number>>({})
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight })
+
+  useEffect(() => {
+    const update = () => {
+      const container = containerRef.current
+      if (!container) return
+      const top = -container.getBoundingClientRect().top
+      setViewport({ top, bottom: top + window.innerHeight })
+    }
+
+    update()
+    window.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      window.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [rows])
+
+  const offsets: number[] = []
+  let totalHeight = 0
+  rows.forEach(row => {
+    offsets.push(totalHeight)
+    totalHeight += heights[row.key] ?? (row.kind === 'date' ? DATE_HEADER_HEIGHT : estimatedMatchHeight)
+  })
+
+  const setRowHeight = (key: string, height: number) => {
+    setHeights(prev => prev[key] === height ? prev : { ...prev, [key]: height })
+  }
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      {rows.map((row, index) => {
+        const top = offsets[index]
+        const height = heights[row.key] ?? estimatedMatchHeight
+        if (top + height < viewport.top - overscan || top > viewport.bottom + overscan) return null
+
+        return (
+          <MeasuredRow key={row.key} top={top} onResize={height => setRowHeight(row.key, height)}>
+            {row.kind === 'date' ? (
+              <div className="text-gray-400 text-sm font-semibold uppercase tracking-wide pt-2 pb-3">
+                {row.label}
+              </div>
+            ) : (
+              <div className="pb-4">{renderMatch(row.match)}</div>
+            )}
+          </MeasuredRow>
+        )
+      })}
+    </div>
+  )
+}
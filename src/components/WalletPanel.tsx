@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { LedgerEntry, ledgerBalance } from '../utils/betLedger'
+import { CURRENCIES, formatMoney, getWelcomeBonusCap, getWithdrawalError, WalletBalances } from '../utils/wallet'
+
+interface WalletPanelProps {
+  entries: LedgerEntry[]
+  balances: WalletBalances
+  /** Balance recorded apart from the ledger, to check the ledger against */
+  storedBalance: number | null
+  currency: string
+  onDeposit: (amount: number) => void
+  onWithdraw: (amount: number) => void
+  onClose: () => void
+}
+
+const ENTRY_LABELS: Record<LedgerEntry['type'], string> = {
+  opening: 'Opening',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  bonus: 'Bonus',
+  stake: 'Stake',
+  return: 'Return',
+  cash_out: 'Cash Out',
+  simulation: 'Simulation',
+  reset: 'Reset'
+}
+
+/**
+ * The user's wallet: cash and bonus balances, deposits and withdrawals,
+ * its currency (fixed at registration), and every transaction (newest first) with the balance after
+ * each one and a check that they add up to the balance recorded apart
+ * from the ledger
+ */
+export function WalletPanel({ entries, balances, storedBalance, currency, onDeposit, onWithdraw, onClose }: WalletPanelProps) {
+  const [amount, setAmount] = useState('')
+  const [error, setError] = useState('')
+  const isFirstDeposit = !entries.some(entry => entry.type === 'deposit')
+  const reconstructed = ledgerBalance(entries)
+  const isBalanced = storedBalance !== null && Math.abs(reconstructed - storedBalance) < 0.005
+  const rows = entries.map((entry, idx) => ({
+    entry,
+    balanceAfter: ledgerBalance(entries.slice(0, idx + 1))
+  })).reverse()
+
+  const handleDeposit = () => {
+    const value = parseFloat(amount)
+    if (!(value > 0)) {
+      setError('Enter an amount to deposit')
+      return
+    }
+    setError('')
+    setAmount('')
+    onDeposit(value)
+  }
+
+  const handleWithdraw = () => {
+    const value = parseFloat(amount)
+    const withdrawalError = getWithdrawalError(balances, value)
+    if (withdrawalError) {
+      setError(withdrawalError)
+      return
+    }
+    setError('')
+    setAmount('')
+    onWithdraw(value)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-gray-800 border-b border-gray-700 p-4 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">Wallet</h2>
+          <Button onClick={onClose} className="bg-red-600 hover:bg-red-700">
+            Close
+          </Button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-gray-900 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Cash</div>
+              <div className="text-white font-bold">{formatMoney(balances.cash, currency)}</div>
+            </div>
+            <div className="bg-gray-900 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Bonus</div>
+              <div className="text-yellow-400 font-bold">{formatMoney(balances.bonus, currency)}</div>
+            </div>
+            <div className="bg-gray-900 rounded-lg p-3">
+              <div className="text-xs text-gray-400">Total</div>
+              <div className="text-green-400 font-bold">{formatMoney(balances.total, currency)}</div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder={`Amount (${currency})`}
+                className="flex-1 min-w-0 bg-gray-700 text-white p-2 rounded-lg"
+              />
+              <Button onClick={handleDeposit} className="bg-green-600 hover:bg-green-700 text-white">
+                Deposit
+              </Button>
+              <Button onClick={handleWithdraw} className="bg-gray-600 hover:bg-gray-500 text-white">
+                Withdraw
+              </Button>
+            </div>
+            {error && <div className="text-red-400 text-sm mt-2">{error}</div>}
+            <p className="text-xs text-gray-500 mt-2">
+              {isFirstDeposit && `Your first deposit is matched in bonus funds up to ${formatMoney(getWelcomeBonusCap(currency), currency)}. `}
+              Bonus funds can be staked but not withdrawn; stakes use cash first.
+            </p>
+          </div>
+
+          <div>
+            <div className="text-gray-400 text-sm mb-1">Currency</div>
+            <div className="text-white">
+              {currency} · {CURRENCIES.find(option => option.value === currency)?.label || currency}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Chosen when you registered. Amounts are never converted, so it can't be changed.
+            </p>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-2">Transactions</h3>
+            {storedBalance !== null && (
+              <div className={`rounded-lg p-3 mb-4 text-sm ${isBalanced ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'}`}>
+                Ledger total: {formatMoney(reconstructed, currency)}
+                {isBalanced
+                  ? ' — matches your recorded balance'
+                  : ` — differs from your recorded balance of ${formatMoney(storedBalance, currency)}`}
+              </div>
+            )}
+
+            {rows.length === 0 ? (
+              <div className="text-center text-gray-400 py-8">No transactions yet.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left border-b border-gray-700">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Type</th>
+                    <th className="py-2">Description</th>
+                    <th className="py-2 text-right">Amount</th>
+                    <th className="py-2 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ entry, balanceAfter }, idx) => (
+                    <tr key={entry.id ?? `new-${idx}`} className="border-b border-gray-700 text-gray-300">
+                      <td className="py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="py-2">{ENTRY_LABELS[entry.type]}{entry.fund === 'bonus' && <span className="text-yellow-400"> (bonus)</span>}</td>
+                      <td className="py-2 truncate max-w-xs">{entry.description}</td>
+                      <td className={`py-2 text-right ${entry.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {entry.amount >= 0 ? '+' : ''}{entry.amount.toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right text-white">{balanceAfter.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+/**
+ * Domain types shared between the odds providers, utilities and the UI
+ */
+
+export interface MarketOdds {
+  home: number
+  draw?: number
+  away: number
+}
+
+export interface SpreadOdds {
+  point: number
+  home: number
+  away: number
+}
+
+export interface TotalsOdds {
+  point: number
+  over: number
+  under: number
+}
+
+/** One bookmaker's prices for an event */
+export interface BookmakerOdds {
+  key: string
+  title: string
+  lastUpdate?: string
+  h2h?: MarketOdds
+  /** Exchange lay prices, when the h2h_lay market was requested */
+  h2hLay?: MarketOdds
+  spread?: SpreadOdds
+  totals?: TotalsOdds
+  alternateTotals?: TotalsOdds[]
+  bothTeamsToScore?: {
+    yes: number
+    no: number
+  }
+  drawNoBet?: {
+    home: number
+    away: number
+  }
+}
+
+/** Title of the bookmaker offering the best price for each outcome */
+export interface BestPriceSources {
+  h2h?: {
+    home: string
+    draw?: string
+    away: string
+  }
+  spread?: {
+    home: string
+    away: string
+  }
+  totals?: {
+    over: string
+    under: string
+  }
+  bothTeamsToScore?: {
+    yes: string
+    no: string
+  }
+  drawNoBet?: {
+    home: string
+    away: string
+  }
+}
+
+export type Sport = 'soccer' | 'basketball' | 'icehockey' | 'americanfootball' | 'tennis'
+
+export type BetMarket =
+  | 'h2h'
+  | 'spreads'
+  | 'totals'
+  | 'btts'
+  | 'correct_score'
+  | 'double_chance'
+  | 'draw_no_bet'
+  | 'winning_margin'
+  | 'odd_even'
+  | 'outright'
+
+export interface Match {
+  id: string
+  /** Missing on matches cached before multi-sport support (soccer) */
+  sport?: Sport
+  /** Odds API sport key of the league, e.g. "basketball_nba" */
+  sportKey?: string
+  league: string
+  homeTeam: string
+  awayTeam: string
+  /** Display time, e.g. "Oct 19, 03:00 PM" */
+  time: string
+  /** ISO kick-off time, used for grouping and ordering */
+  commenceTime?: string
+  /** Best price per outcome across all bookmakers */
+  h2h?: MarketOdds
+  /** The quoted three-way h2h, when `h2h` is a two-way moneyline derived from it (ice hockey) */
+  regulationH2h?: MarketOdds
+  spread?: SpreadOdds
+  totals?: TotalsOdds
+  bothTeamsToScore?: {
+    yes: number
+    no: number
+  }
+  correctScore?: {
+    scores: Array<{ score: string, odds: number }>
+  }
+  alternateTotals?: TotalsOdds[]
+  doubleChance?: {
+    homeOrDraw: number
+    drawOrAway: number
+    homeOrAway: number
+  }
+  drawNoBet?: {
+    home: number
+    away: number
+  }
+  /** Outcomes are `home_1`, `home_2`, `home_3+`, `draw`, `away_1`, ... */
+  winningMargin?: Array<{ outcome: string, odds: number }>
+  oddEven?: {
+    odd: number
+    even: number
+  }
+  bookmakers?: BookmakerOdds[]
+  bestPriceSources?: BestPriceSources
+}
+
+export interface League {
+  key: string
+  title: string
+  sport: Sport
+  /** Futures competition (e.g. a tournament winner) priced with the outrights market */
+  hasOutrights: boolean
+}
+
+/** Best price for one participant in an outright market */
+export interface OutrightPrice {
+  name: string
+  odds: number
+  /** Title of the bookmaker offering the best price */
+  bookmaker?: string
+}
+
+export interface Outright {
+  id: string
+  sport: Sport
+  sportKey: string
+  competition: string
+  time: string
+  /** Sorted from favourite to outsider */
+  participants: OutrightPrice[]
+}
+
+/** A match's state in the scores feed */
+export interface MatchScore {
+  matchId: string
+  sportKey: string
+  commenceTime: string
+  completed: boolean
+  /** Missing until the match has started */
+  homeScore?: number
+  awayScore?: number
+}
+
+/** One accumulator line of a system bet */
+export interface BetLine {
+  /** Keys of the slip units (matches or outrights) in the line */
+  units: string[]
+  odds: number
+}
+
+/** A selection on the bet slip */
+export interface Selection {
+  id: string
+  matchId: string
+  match: string
+  selection: string
+  odds: number
+  market: BetMarket
+  side: 'home' | 'away' | 'draw' | 'over' | 'under' | 'yes' | 'no' | string
+  point?: number
+  /** Bookmaker offering the price, when it is a quoted rather than generated price */
+  bookmaker?: string
+  /** League the match belongs to, used to look up its result */
+  sportKey?: string
+  /** ISO kick-off time of the match, so results are only requested once it has started */
+  commenceTime?: string
+  /** Price before the last accepted odds change, shown as drift */
+  previousOdds?: number
+}
+
+/** An entry in a bet's cash-out history */
+export type CashOutEvent =
+  /** `share` of the remaining bet was cashed out for `amount` */
+  | { type: 'cash_out', at: Date, amount: number, share: number, isAuto: boolean }
+  | { type: 'auto_cash_out_set', at: Date, target: number }
+  | { type: 'auto_cash_out_cleared', at: Date }
+
+/** A placed Real-mode bet awaiting its result */
+export interface PendingBet {
+  id: string
+  selections: Selection[]
+  /** Total stake across all lines */
+  stake: number
+  potentialWin: number
+  placedAt: Date
+  /** Price per match, same-game multis at their combined price */
+  unitOdds: Record<string, number>
+  /** System bets only: label, lines and the result marked for each match */
+  systemBet?: {
+    label: string
+    lines: BetLine[]
+    stakePerLine: number
+    unitWon: Record<string, boolean>
+  }
+  /** Cash the whole bet out once the offer reaches this amount */
+  autoCashOutAt?: number
+  cashOutHistory?: CashOutEvent[]
+}
@@ -0,0 +1,88 @@
+/**
+ * Asian handicap (spread) helpers
+ *
+ * Quarter lines (e.g. -0.25, -0.75) are split into two equal half-stakes on the
+ * neighbouring lines, which is what produces half-win and half-loss results.
+ */
+
+export type HandicapOutcome = 'win' | 'half_win' | 'push' | 'half_loss' | 'loss'
+
+export interface HandicapSettlement {
+  outcome: HandicapOutcome
+  /** Amount returned per unit staked, including stake */
+  returnPerUnit: number
+}
+
+/**
+ * Format a handicap line with its sign, keeping quarter-line precision
+ */
+export function formatHandicap(point: number): string {
+  if (point === 0) return '0'
+  const sign = point > 0 ? '+' : ''
+  return `${sign}${Number(point.toFixed(2))}`
+}
+
+/**
+ * Whether the line is a quarter line that settles as two half-stakes
+ */
+export function isQuarterLine(point: number): boolean {
+  return Math.abs((point * 4) % 2) === 1
+}
+
+/**
+ * Split a handicap into the lines each part of the stake is settled on
+ */
+export function splitHandicapLine(point: number): number[] {
+  if (isQuarterLine(point)) {
+    return [point - 0.25, point + 0.25]
+  }
+  return [point]
+}
+
+/**
+ * Settle an Asian handicap selection from the final score
+ *
+ * `point` is the handicap applied to the selected side and `goalDifference`
+ * is the selected side's goals minus its opponent's.
+ */
+export function settleAsianHandicap(goalDifference: number, point: number, odds: number): HandicapSettlement {
+  const lines = splitHandicapLine(point)
+
+  const partReturns = lines.map(line => {
+    const adjusted = goalDifference + line
+    if (adjusted > 0) return odds
+    if (adjusted === 0) return 1
+    return 0
+  })
+
+  const returnPerUnit = partReturns.reduce((sum, r) => sum + r, 0) / lines.length
+
+  let outcome: HandicapOutcome
+  if (returnPerUnit === odds) {
+    outcome = 'win'
+  } else if (returnPerUnit === 0) {
+    outcome = 'loss'
+  } else if (returnPerUnit === 1) {
+    outcome = 'push'
+  } else if (returnPerUnit > 1) {
+    outcome = 'half_win'
+  } else {
+    outcome = 'half_loss'
+  }
+
+  return { outcome, returnPerUnit }
+}
+
+/**
+ * Display label for a handicap settlement
+ */
+export function getHandicapOutcomeLabel(outcome: HandicapOutcome): string {
+  const labels: Record<HandicapOutcome, string> = {
+    win: 'Won',
+    half_win: 'Half Won',
+    push: 'Push (Stake Returned)',
+    half_loss: 'Half Lost',
+    loss: 'Lost'
+  }
+  return labels[outcome]
+}
@@ -0,0 +1,75 @@
+/**
+ * Authentication provider abstraction
+ *
+ * Accounts are either kept in the browser (passwords hashed with WebCrypto)
+ * or on a backend that issues JWTs. Either way login produces an AuthSession
+ * whose token is sent to the simulation API in the Authorization header.
+ */
+
+import { createLocalAuthProvider } from './localAuthProvider'
+import { createJwtAuthProvider } from './jwtAuthProvider'
+
+export interface AuthSession {
+  /** Stable id the user's bets, ledger and simulations are stored under */
+  userId: string
+  username: string
+  token: string
+  /** Epoch milliseconds after which the session must log in again */
+  expiresAt: number
+  /** Admins can set simulator controls such as the target RTP */
+  isAdmin?: boolean
+}
+
+export interface AuthProvider {
+  name: string
+  login(username: string, password: string): Promise<AuthSession>
+  register(username: string, password: string): Promise<AuthSession>
+}
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const SESSION_KEY = 'session'
+
+/**
+ * The stored session, or null when there is none or it has expired
+ */
+export function loadSession(now: number = Date.now()): AuthSession | null {
+  try {
+    const session: AuthSession | null = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null')
+    return session && session.expiresAt > now ? session : null
+  } catch {
+    return null
+  }
+}
+
+export function saveSession(session: AuthSession) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY)
+}
+
+/**
+ * Headers identifying the user to the simulation API
+ */
+export function authHeaders(session: AuthSession): Record<string, string> {
+  return {
+    Authorization: `Bearer ${session.token}`,
+    'X-User-Id': session.userId
+  }
+}
+
+export type AuthProviderKind = 'local' | 'jwt'
+
+/**
+ * Create the provider configured through VITE_AUTH_PROVIDER; local accounts
+ * listed in VITE_ADMIN_USERS (comma-separated) are admins
+ */
+export function createAuthProvider(kind: AuthProviderKind = import.meta.env.VITE_AUTH_PROVIDER || 'local'): AuthProvider {
+  if (kind === 'jwt') {
+    return createJwtAuthProvider(import.meta.env.VITE_AUTH_URL || import.meta.env.VITE_SIMULATION_API_URL || 'http://localhost:8000')
+  }
+  const adminUsers = (import.meta.env.VITE_ADMIN_USERS || '').split(',').map((username: string) => username.trim()).filter(Boolean)
+  return createLocalAuthProvider(adminUsers)
+}
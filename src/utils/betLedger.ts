@@ -0,0 +1,206 @@
+/**
+ * Per-user persistence of Real-mode bets, the balance ledger and simulation
+ * replays (IndexedDB)
+ *
+ * The ledger is append-only: every balance change (opening balance, stakes,
+ * returns, cash-outs, simulation results, resets) is a signed entry, and a
+ * user's balance is the sum of their entries. Bets are stored with their
+ * status, so pending bets survive reloads and logouts and settled ones stay
+ * available for audit.
+ */
+
+import { PendingBet } from '../types'
+import { MAX_REPLAY_BATCHES, ReplayBatch } from './replays'
+
+const DB_NAME = 'super-bet'
+const DB_VERSION = 3
+const BETS_STORE = 'bets'
+const LEDGER_STORE = 'ledger'
+const REPLAYS_STORE = 'replays'
+
+export type BetStatus = 'pending' | 'settled' | 'cashed_out' | 'cancelled'
+
+export interface StoredBet extends PendingBet {
+  userId: string
+  status: BetStatus
+  payout?: number
+  settledAt?: Date
+}
+
+export type LedgerEntryType =
+  | 'opening'
+  | 'deposit'
+  | 'withdrawal'
+  | 'bonus'
+  | 'stake'
+  | 'return'
+  | 'cash_out'
+  | 'simulation'
+  | 'reset'
+
+/** Withdrawable cash or bonus funds that can only be staked */
+export type Fund = 'cash' | 'bonus'
+
+export interface LedgerEntry {
+  /** Assigned by the store; gives the ledger its order */
+  id?: number
+  userId: string
+  type: LedgerEntryType
+  /** Signed change to the balance */
+  amount: number
+  /** Missing on entries from before bonus funds (cash) */
+  fund?: Fund
+  betId?: string
+  /** Simulation entries: total staked across the runs, as `amount` is only the net result */
+  staked?: number
+  description: string
+  createdAt: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = event => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore(BETS_STORE, { keyPath: 'id' }).createIndex('userId', 'userId')
+          db.createObjectStore(LEDGER_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('userId', 'userId')
+        }
+        // Version 2 kept one replay per user and seed; replays are now kept by batch
+        if (event.oldVersion === 2) db.deleteObjectStore(REPLAYS_STORE)
+        if (event.oldVersion < 3) {
+          db.createObjectStore(REPLAYS_STORE, { keyPath: 'id' }).createIndex('userId', 'userId')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Every bet stored for a user, oldest first
+ */
+export async function loadBets(userId: string): Promise<StoredBet[]> {
+  const db = await openDb()
+  const index = db.transaction(BETS_STORE).objectStore(BETS_STORE).index('userId')
+  const bets: StoredBet[] = await requestToPromise(index.getAll(userId))
+  return bets.sort((a, b) => a.placedAt.getTime() - b.placedAt.getTime())
+}
+
+/**
+ * Insert or update bets (e.g. when they are placed and when they settle)
+ */
+export async function saveBets(bets: StoredBet[]): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(BETS_STORE, 'readwrite')
+  bets.forEach(bet => transaction.objectStore(BETS_STORE).put(bet))
+  return transactionDone(transaction)
+}
+
+/**
+ * A user's ledger in the order it was written
+ */
+export async function loadLedger(userId: string): Promise<LedgerEntry[]> {
+  const db = await openDb()
+  const index = db.transaction(LEDGER_STORE).objectStore(LEDGER_STORE).index('userId')
+  const entries: LedgerEntry[] = await requestToPromise(index.getAll(userId))
+  return entries.sort((a, b) => a.id! - b.id!)
+}
+
+/**
+ * Append entries to the ledger; existing entries are never changed
+ */
+export async function appendLedger(entries: LedgerEntry[]): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(LEDGER_STORE, 'readwrite')
+  entries.forEach(entry => transaction.objectStore(LEDGER_STORE).add(entry))
+  return transactionDone(transaction)
+}
+
+/**
+ * Whether any bets or ledger entries are stored under a user id
+ */
+export async function hasStoredData(userId: string): Promise<boolean> {
+  const db = await openDb()
+  const transaction = db.transaction([BETS_STORE, LEDGER_STORE])
+  const counts = await Promise.all([BETS_STORE, LEDGER_STORE].map(name =>
+    requestToPromise(transaction.objectStore(name).index('userId').count(userId))
+  ))
+  return counts.some(count => count > 0)
+}
+
+/**
+ * Start a user's ledger with an opening balance, unless it already has entries
+ *
+ * The check and the write share one transaction, so overlapping calls (e.g.
+ * an effect that runs twice) open the ledger only once.
+ */
+export async function openLedger(userId: string, openingBalance: number): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(LEDGER_STORE, 'readwrite')
+  const store = transaction.objectStore(LEDGER_STORE)
+  const count = await requestToPromise(store.index('userId').count(userId))
+  if (count === 0) {
+    const entry: LedgerEntry = {
+      userId,
+      type: 'opening',
+      amount: openingBalance,
+      description: 'Opening balance',
+      createdAt: new Date().toISOString()
+    }
+    store.add(entry)
+  }
+  return transactionDone(transaction)
+}
+
+/**
+ * The balance a ledger adds up to
+ */
+export function ledgerBalance(entries: LedgerEntry[]): number {
+  return entries.reduce((balance, entry) => balance + entry.amount, 0)
+}
+
+/**
+ * Keep a batch of simulation trials so they can be replayed, removing the
+ * user's oldest batches beyond `keep`
+ *
+ * Batch ids start with the time they ran, so key order is age order.
+ */
+export async function saveReplayBatch(batch: ReplayBatch, keep: number = MAX_REPLAY_BATCHES): Promise<void> {
+  const db = await openDb()
+  const transaction = db.transaction(REPLAYS_STORE, 'readwrite')
+  const store = transaction.objectStore(REPLAYS_STORE)
+  store.put(batch)
+  const ids = await requestToPromise(store.index('userId').getAllKeys(batch.userId))
+  ids.slice(0, Math.max(0, ids.length - keep)).forEach(id => store.delete(id))
+  return transactionDone(transaction)
+}
+
+/**
+ * A user's kept replay batches, oldest first
+ */
+export async function loadReplayBatches(userId: string): Promise<ReplayBatch[]> {
+  const db = await openDb()
+  const index = db.transaction(REPLAYS_STORE).objectStore(REPLAYS_STORE).index('userId')
+  return requestToPromise(index.getAll(userId))
+}
@@ -0,0 +1,117 @@
+/**
+ * Cash-out offers for pending Real-mode bets
+ *
+ * A bet is worth what its lines would return at today's prices: each match
+ * (or outright) on it is valued at placed odds ÷ current odds while it is
+ * still to be played, and at its settled return once it has finished. The
+ * offer is that value less CASH_OUT_MARGIN. Matches in play have no price,
+ * so bets on them have no offer until they finish.
+ */
+
+import { Match, MatchScore, Outright, PendingBet } from '../types'
+import { getMatchStatus, SettleableBet, SettleableSelection, settleUnit } from './settlement'
+
+/** Share of a bet's current value kept when it is cashed out */
+export const CASH_OUT_MARGIN = 0.05
+
+/**
+ * Current price of a selection in a match, or undefined once the market
+ * or line is no longer offered
+ */
+export function getSelectionOdds(match: Match, selection: SettleableSelection): number | undefined {
+  const { market, side, point } = selection
+
+  switch (market) {
+    case 'h2h':
+      return match.h2h?.[side as 'home' | 'draw' | 'away']
+    case 'spreads':
+      return match.spread?.point === point ? match.spread?.[side as 'home' | 'away'] : undefined
+    case 'totals': {
+      const line = [match.totals, ...(match.alternateTotals || [])].find(total => total?.point === point)
+      return line?.[side as 'over' | 'under']
+    }
+    case 'btts':
+      return match.bothTeamsToScore?.[side as 'yes' | 'no']
+    case 'correct_score':
+      return match.correctScore?.scores.find(score => score.score === side)?.odds
+    case 'double_chance': {
+      const key = ({ '1X': 'homeOrDraw', 'X2': 'drawOrAway', '12': 'homeOrAway' } as const)[side as '1X' | 'X2' | '12']
+      return key && match.doubleChance?.[key]
+    }
+    case 'draw_no_bet':
+      return match.drawNoBet?.[side as 'home' | 'away']
+    case 'winning_margin':
+      return match.winningMargin?.find(margin => margin.outcome === side)?.odds
+    case 'odd_even':
+      return match.oddEven?.[side as 'odd' | 'even']
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Value now of one unit staked on a match or outright when the bet was
+ * placed, or undefined when it can't be priced (in play, held for review or
+ * off the board)
+ */
+export function getUnitValue(
+  selections: SettleableSelection[],
+  unitOdds: number,
+  current: { match?: Match, outright?: Outright, score?: MatchScore },
+  now: number = Date.now()
+): number | undefined {
+  const { match, outright, score } = current
+
+  if (selections[0]?.market === 'outright') {
+    const participant = outright?.participants.find(p => p.name === selections[0].side)
+    return participant ? selections[0].odds / participant.odds : undefined
+  }
+
+  const status = getMatchStatus(score, selections[0]?.commenceTime, now)
+  if (status === 'completed') return settleUnit(selections, unitOdds, score!)
+  if (status === 'void') return 1
+  if (status === 'review') return undefined
+  if (score?.homeScore !== undefined || !match) return undefined
+
+  // A same-game multi's price moves with the prices of its legs
+  const currentOdds = selections.map(sel => getSelectionOdds(match, sel))
+  if (currentOdds.some(odds => !odds)) return undefined
+  return selections.reduce((acc, sel, idx) => acc * sel.odds / currentOdds[idx]!, 1)
+}
+
+/**
+ * Cash-out offer for a bet from the value of each of its units
+ *
+ * Returns null when a unit still to be decided can't be priced; a bet that
+ * has already lost is offered 0.
+ */
+export function quoteCashOut(bet: SettleableBet, unitValues: Record<string, number | undefined>): number | null {
+  const lines = bet.systemBet
+    ? bet.systemBet.lines.map(line => ({ units: line.units, stake: bet.systemBet!.stakePerLine }))
+    : [{ units: Object.keys(bet.unitOdds), stake: bet.stake }]
+
+  let value = 0
+  for (const line of lines) {
+    const values = line.units.map(unit => unitValues[unit])
+    // A lost unit sinks its line whatever the others are worth
+    if (values.some(unitValue => unitValue === 0)) continue
+    if (values.some(unitValue => unitValue === undefined)) return null
+    value += line.stake * values.reduce((acc: number, unitValue) => acc * unitValue!, 1)
+  }
+
+  return Math.floor(value * (1 - CASH_OUT_MARGIN) * 100) / 100
+}
+
+/**
+ * What is left of a bet after cashing out `share` of it: the stake, every
+ * line's stake and the potential win all shrink by that share
+ */
+export function reduceBet(bet: PendingBet, share: number): PendingBet {
+  const remaining = 1 - share
+  return {
+    ...bet,
+    stake: bet.stake * remaining,
+    potentialWin: bet.potentialWin * remaining,
+    systemBet: bet.systemBet && { ...bet.systemBet, stakePerLine: bet.systemBet.stakePerLine * remaining }
+  }
+}
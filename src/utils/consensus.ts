@@ -0,0 +1,91 @@
+/**
+ * Consensus prices across bookmakers
+ *
+ * Best prices are what a punter can get, but taken outcome by outcome they
+ * often add up to less than a 100% book. The consensus prices below are a
+ * steadier input for the score model and the simulator.
+ */
+
+import { BookmakerOdds, Match, MarketOdds, TotalsOdds } from '../types'
+import { MarginMethod, removeMargin } from './margin'
+
+export type PriceSource = 'best' | 'median' | 'fair_average'
+
+export const PRICE_SOURCES: Array<{ value: PriceSource, label: string, description: string }> = [
+  { value: 'best', label: 'Best Price', description: 'Highest price per outcome across bookmakers (as displayed)' },
+  { value: 'median', label: 'Consensus (Median)', description: 'Median price per outcome across bookmakers' },
+  { value: 'fair_average', label: 'Consensus (Fair Average)', description: 'Average of each bookmaker\'s de-margined probabilities' }
+]
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * Average the de-margined probabilities of each bookmaker's book and
+ * convert them back into (margin-free) prices
+ */
+function fairAverage(books: number[][], marginMethod: MarginMethod): number[] {
+  const fair = books.map(prices => removeMargin(prices, marginMethod))
+  return fair[0].map((_, idx) => 1 / average(fair.map(probabilities => probabilities[idx])))
+}
+
+/**
+ * Consensus 1X2 prices, or undefined when no bookmaker quotes the market
+ */
+export function consensusH2h(bookmakers: BookmakerOdds[], method: Exclude<PriceSource, 'best'>, marginMethod: MarginMethod): MarketOdds | undefined {
+  const quotes = bookmakers.map(b => b.h2h).filter((h2h): h2h is MarketOdds => !!h2h)
+  if (quotes.length === 0) return undefined
+
+  // Don't mix two-way and three-way books
+  const hasDraw = quotes.some(q => q.draw)
+  const books = quotes
+    .filter(q => !!q.draw === hasDraw)
+    .map(q => hasDraw ? [q.home, q.draw!, q.away] : [q.home, q.away])
+
+  const prices = method === 'median'
+    ? books[0].map((_, idx) => median(books.map(book => book[idx])))
+    : fairAverage(books, marginMethod)
+
+  return hasDraw
+    ? { home: prices[0], draw: prices[1], away: prices[2] }
+    : { home: prices[0], away: prices[1] }
+}
+
+/**
+ * Consensus over/under prices at the given line
+ */
+export function consensusTotals(bookmakers: BookmakerOdds[], point: number, method: Exclude<PriceSource, 'best'>, marginMethod: MarginMethod): TotalsOdds | undefined {
+  const books = bookmakers
+    .filter(b => b.totals?.point === point)
+    .map(b => [b.totals!.over, b.totals!.under])
+  if (books.length === 0) return undefined
+
+  const [over, under] = method === 'median'
+    ? [median(books.map(b => b[0])), median(books.map(b => b[1]))]
+    : fairAverage(books, marginMethod)
+
+  return { point, over, under }
+}
+
+/**
+ * The 1X2 and totals prices the score model is fitted to for a match
+ */
+export function selectModelMarkets(match: Match, source: PriceSource, marginMethod: MarginMethod): Pick<Match, 'h2h' | 'totals'> {
+  if (source === 'best' || !match.bookmakers || match.bookmakers.length === 0) {
+    return { h2h: match.h2h, totals: match.totals }
+  }
+
+  return {
+    h2h: consensusH2h(match.bookmakers, source, marginMethod) || match.h2h,
+    totals: match.totals
+      ? consensusTotals(match.bookmakers, match.totals.point, source, marginMethod) || match.totals
+      : undefined
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * OddsProvider backed by recorded Odds API JSON snapshots
+ *
+ * Expects `sports.json` and one `<league key>.json` odds snapshot per league
+ * under the base URL (by default `public/fixtures/odds`). Snapshots are the raw
+ * response bodies of `/v4/sports` and `/v4/sports/{league}/odds`, so a fresh
+ * recording can be dropped in without editing.
+ *
+ * A snapshot is one recorded request, so the requested regions and markets
+ * are ignored; the bookmaker allow-list is still applied.
+ *
+ * Scores come from `scores/<league key>.json`, the response body of
+ * `/v4/sports/{league}/scores`, and stand in for the live scores feed.
+ */
+
+import { DEFAULT_ODDS_REQUEST, OddsProvider, OddsRequest } from './oddsProvider'
+import { eventsToMatches, eventsToOutrights, OddsApiEvent, OddsApiScoreEvent, OddsApiSport, scoreEventsToMatchScores, sportsToLeagues } from './oddsApiTransform'
+
+async function loadFixture<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    throw new Error(`Fixture not found: ${url} (${response.status})`)
+  }
+
+  return response.json()
+}
+
+export function createFixtureOddsProvider(baseUrl: string): OddsProvider {
+  const root = baseUrl.replace(/\/$/, '')
+
+  return {
+    name: 'Fixtures',
+
+    async fetchLeagues() {
+      const data = await loadFixture<OddsApiSport[]>(`${root}/sports.json`)
+      return sportsToLeagues(data)
+    },
+
+    async fetchOdds(leagueKey: string, request: OddsRequest = DEFAULT_ODDS_REQUEST) {
+      const data = await loadFixture<OddsApiEvent[]>(`${root}/${leagueKey}.json`)
+      return {
+        matches: eventsToMatches(data, request.bookmakers),
+        requestsRemaining: null
+      }
+    },
+
+    async fetchOutrights(leagueKey: string, request: OddsRequest = DEFAULT_ODDS_REQUEST) {
+      const data = await loadFixture<OddsApiEvent[]>(`${root}/${leagueKey}.json`)
+      return {
+        outrights: eventsToOutrights(data, request.bookmakers),
+        requestsRemaining: null
+      }
+    },
+
+    async fetchScores(leagueKey: string) {
+      const data = await loadFixture<OddsApiScoreEvent[]>(`${root}/scores/${leagueKey}.json`)
+      return {
+        scores: scoreEventsToMatchScores(data),
+        requestsRemaining: null
+      }
+    }
+  }
+}
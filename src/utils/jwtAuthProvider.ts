@@ -0,0 +1,64 @@
+/**
+ * AuthProvider backed by a token endpoint that issues JWTs
+ *
+ * `POST {baseUrl}/auth/login` and `POST {baseUrl}/auth/register` take
+ * `{ username, password }` and return `{ access_token }`. The user id and
+ * expiry are read from the token's `sub` and `exp` claims, and a `role` claim
+ * of "admin" marks an admin.
+ */
+
+import { AuthProvider, AuthSession } from './authProvider'
+
+interface TokenResponse {
+  access_token: string
+}
+
+interface JwtClaims {
+  sub?: string
+  exp?: number
+  role?: string
+}
+
+/**
+ * The claims of a JWT; the signature is left to the backend to verify
+ */
+export function decodeJwt(token: string): JwtClaims {
+  const payload = token.split('.')[1]
+  if (!payload) throw new Error('Malformed token')
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=')
+  return JSON.parse(atob(base64))
+}
+
+export function createJwtAuthProvider(baseUrl: string): AuthProvider {
+  const requestToken = async (path: string, username: string, password: string): Promise<AuthSession> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.detail || `Authentication failed: ${response.status}`)
+    }
+
+    const { access_token: token }: TokenResponse = await response.json()
+    const claims = decodeJwt(token)
+    if (!claims.sub || !claims.exp) {
+      throw new Error('Token is missing its subject or expiry')
+    }
+    return { userId: claims.sub, username, token, expiresAt: claims.exp * 1000, isAdmin: claims.role === 'admin' }
+  }
+
+  return {
+    name: 'JWT',
+
+    login(username: string, password: string) {
+      return requestToken('/auth/login', username, password)
+    },
+
+    register(username: string, password: string) {
+      return requestToken('/auth/register', username, password)
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * AuthProvider keeping accounts in localStorage
+ *
+ * Passwords are stored as salted PBKDF2-SHA256 hashes (WebCrypto), never in
+ * the clear. The session token is random and only meaningful to this
+ * browser; use the JWT provider when a backend has to verify it. Usernames
+ * in `adminUsers` sign in as admins.
+ *
+ * The user id is the username, so a username that already has data in this
+ * browser (from before passwords, when signing in only took a username)
+ * can't be registered: whoever did so first would take over its balance,
+ * bets and ledger.
+ */
+
+import { AuthProvider, AuthSession } from './authProvider'
+import { hasStoredData } from './betLedger'
+
+const USERS_KEY = 'auth_users'
+/** Balance key of the username-only login */
+const legacyBalanceKey = (username: string) => `balance_${username}`
+const PBKDF2_ITERATIONS = 210000
+const SESSION_TTL = 12 * 60 * 60 * 1000 // 12 hours
+
+interface StoredCredential {
+  salt: string
+  hash: string
+  iterations: number
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+
+function loadCredentials(): Record<string, StoredCredential> {
+  try {
+    return JSON.parse(localStorage.getItem(USERS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+async function hashPassword(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return toHex(new Uint8Array(bits))
+}
+
+export function createLocalAuthProvider(adminUsers: string[] = []): AuthProvider {
+  const createSession = (username: string): AuthSession => ({
+    userId: username,
+    username,
+    token: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    expiresAt: Date.now() + SESSION_TTL,
+    isAdmin: adminUsers.includes(username)
+  })
+
+  return {
+    name: 'Local',
+
+    async login(username: string, password: string) {
+      const credential = loadCredentials()[username]
+      if (!credential) {
+        throw new Error('Invalid username or password')
+      }
+
+      const hash = await hashPassword(password, fromHex(credential.salt), credential.iterations)
+      if (hash !== credential.hash) {
+        throw new Error('Invalid username or password')
+      }
+      return createSession(username)
+    },
+
+    async register(username: string, password: string) {
+      const credentials = loadCredentials()
+      if (credentials[username]) {
+        throw new Error('Username already exists. Please login instead.')
+      }
+      if (localStorage.getItem(legacyBalanceKey(username)) !== null || await hasStoredData(username)) {
+        throw new Error('This username has data saved before passwords were introduced and can\'t be registered. Please choose another username.')
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16))
+      const hash = await hashPassword(password, salt, PBKDF2_ITERATIONS)
+      credentials[username] = { salt: toHex(salt), hash, iterations: PBKDF2_ITERATIONS }
+      localStorage.setItem(USERS_KEY, JSON.stringify(credentials))
+      return createSession(username)
+    }
+  }
+}
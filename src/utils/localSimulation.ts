@@ -0,0 +1,204 @@
+/**
+ * In-browser simulation engine
+ *
+ * Takes the same requests as the simulation API's `/api/simulate` and
+ * `/api/simulate-multi` and answers in the same shape: each match's final
+ * score is drawn from its score distribution with a seeded generator, so a
+ * seed always gives the same scores, and every bet is settled from them.
+ * Handicap and totals bets on whole and quarter lines push or half-settle
+ * as they would on a real result.
+ */
+
+import { BetMarket } from '../types'
+import { getHandicapOutcomeLabel } from './asianHandicap'
+import { ScoreProbability } from './oddsConverter'
+import { seededRandom } from './outrights'
+import { settleSelection } from './settlement'
+
+export interface SimulationBet {
+  market: string
+  outcome: string
+  odds: number
+  stake?: number
+}
+
+export interface SimulateRequest {
+  user_id: string
+  sport: string
+  home_team: string
+  away_team: string
+  score_probabilities: ScoreProbability[]
+  bet_slip: SimulationBet[]
+  volatility: string
+  /** Admin override of the server's RTP; the local engine ignores it, like volatility */
+  target_rtp?: number
+  seed: number
+}
+
+export interface SimulateMultiRequest {
+  user_id: string
+  matches: Array<{
+    match_id: string
+    sport: string
+    home_team: string
+    away_team: string
+    score_probabilities: ScoreProbability[]
+  }>
+  bet_slip: Array<SimulationBet & { match_id: string, home_team: string, away_team: string }>
+  stake: number
+  volatility: string
+  /** Admin override of the server's RTP; the local engine ignores it, like volatility */
+  target_rtp?: number
+  seed: number
+}
+
+export interface SimulatedBet {
+  market: string
+  outcome: string
+  stake?: number
+  odds: number
+  won: boolean
+  outcome_occurred: boolean
+  payout?: number
+  profit?: number
+  explanation: string
+}
+
+export interface SimulateResponse {
+  home_team: string
+  away_team: string
+  final_score: Record<string, number>
+  bet_results: SimulatedBet[]
+  bet_slip_won: boolean
+  total_stake: number
+  total_payout: number
+  total_profit: number
+}
+
+export interface SimulateMultiResponse {
+  matches: Array<{ match_id: string, home_team: string, away_team: string, home_score: number, away_score: number }>
+  bet_results: SimulatedBet[]
+  bet_slip_won: boolean
+  stake: number
+  actual_payout: number
+  profit: number
+  total_odds: number
+}
+
+/**
+ * Draw a final score from a distribution; probabilities needn't sum to 1
+ */
+export function sampleScore(scores: ScoreProbability[], random: () => number): { home: number, away: number } {
+  if (scores.length === 0) throw new Error('No score probabilities to sample from')
+  const total = scores.reduce((sum, score) => sum + score.probability, 0)
+  let draw = random() * total
+  for (const score of scores) {
+    draw -= score.probability
+    if (draw < 0) return { home: score.home_score, away: score.away_score }
+  }
+  const last = scores[scores.length - 1]
+  return { home: last.home_score, away: last.away_score }
+}
+
+/**
+ * The bet slip selection behind a simulation API market and outcome (the
+ * reverse of `convertMarketToAPI`)
+ */
+export function fromApiMarket(market: string, outcome: string): { market: BetMarket, side: string, point?: number } {
+  switch (market) {
+    case '1X2':
+      return { market: 'h2h', side: outcome === '1' ? 'home' : outcome === 'X' ? 'draw' : 'away' }
+    case 'over_under': {
+      const [side, point] = outcome.split('_')
+      return { market: 'totals', side, point: parseFloat(point) }
+    }
+    case 'asian_handicap': {
+      // The API line is the side's own handicap; selections carry the home line
+      const [side, line] = outcome.split('_')
+      return { market: 'spreads', side, point: side === 'home' ? parseFloat(line) : -parseFloat(line) }
+    }
+    case 'both_teams_to_score':
+      return { market: 'btts', side: outcome }
+    case 'draw_no_bet':
+      return { market: 'draw_no_bet', side: outcome === '1' ? 'home' : 'away' }
+    case 'correct_score':
+    case 'double_chance':
+    case 'winning_margin':
+    case 'odd_even':
+      return { market, side: outcome }
+  }
+  throw new Error(`The local engine can't settle ${market} bets`)
+}
+
+/**
+ * Settle one bet on a score; `won` means it returned more than its stake
+ */
+function settleBet(bet: SimulationBet, home: number, away: number, stake: number): SimulatedBet {
+  const settlement = settleSelection({ matchId: '', ...fromApiMarket(bet.market, bet.outcome), odds: bet.odds }, home, away)
+  const won = settlement.returnPerUnit > 1
+  const payout = stake * settlement.returnPerUnit
+  return {
+    market: bet.market,
+    outcome: bet.outcome,
+    stake,
+    odds: bet.odds,
+    won,
+    outcome_occurred: won,
+    payout,
+    profit: payout - stake,
+    explanation: `Final score ${home}-${away}: ${getHandicapOutcomeLabel(settlement.outcome)}`
+  }
+}
+
+/**
+ * One trial of a single match; every bet on the slip has its own stake
+ */
+export function simulateMatch(request: SimulateRequest): SimulateResponse {
+  const { home, away } = sampleScore(request.score_probabilities, seededRandom(request.seed))
+  const betResults = request.bet_slip.map(bet => settleBet(bet, home, away, bet.stake || 0))
+  const totalStake = betResults.reduce((sum, bet) => sum + (bet.stake || 0), 0)
+  const totalPayout = betResults.reduce((sum, bet) => sum + (bet.payout || 0), 0)
+
+  return {
+    home_team: request.home_team,
+    away_team: request.away_team,
+    final_score: { [request.home_team]: home, [request.away_team]: away },
+    bet_results: betResults,
+    bet_slip_won: betResults.every(bet => bet.won),
+    total_stake: totalStake,
+    total_payout: totalPayout,
+    total_profit: totalPayout - totalStake
+  }
+}
+
+/**
+ * One trial of an accumulator across several matches, drawn in request
+ * order from one seeded stream
+ */
+export function simulateMultiMatch(request: SimulateMultiRequest): SimulateMultiResponse {
+  const random = seededRandom(request.seed)
+  const matches = request.matches.map(match => {
+    const { home, away } = sampleScore(match.score_probabilities, random)
+    return { match_id: match.match_id, home_team: match.home_team, away_team: match.away_team, home_score: home, away_score: away }
+  })
+
+  let returnPerUnit = 1
+  const betResults = request.bet_slip.map(bet => {
+    const match = matches.find(m => m.match_id === bet.match_id)
+    if (!match) throw new Error(`Bet on unknown match ${bet.match_id}`)
+    const result = settleBet(bet, match.home_score, match.away_score, 1)
+    returnPerUnit *= result.payout!
+    return { ...result, stake: undefined, payout: undefined, profit: undefined }
+  })
+  const payout = request.stake * returnPerUnit
+
+  return {
+    matches,
+    bet_results: betResults,
+    bet_slip_won: betResults.every(bet => bet.won),
+    stake: request.stake,
+    actual_payout: payout,
+    profit: payout - request.stake,
+    total_odds: request.bet_slip.reduce((acc, bet) => acc * bet.odds, 1)
+  }
+}
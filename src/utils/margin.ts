@@ -0,0 +1,88 @@
+/**
+ * Margin removal: turn a market's decimal prices into fair probabilities
+ *
+ * Every method returns probabilities that sum to 1 in the same order as the
+ * prices. They differ in how the bookmaker's overround is assumed to be
+ * spread across outcomes (favourite-longshot bias in particular).
+ */
+
+export type MarginMethod = 'proportional' | 'additive' | 'power' | 'shin' | 'odds_ratio'
+
+export const MARGIN_METHODS: Array<{ value: MarginMethod, label: string, description: string }> = [
+  { value: 'proportional', label: 'Proportional', description: 'Scale every implied probability by the same factor' },
+  { value: 'additive', label: 'Additive', description: 'Subtract an equal share of the overround from each outcome' },
+  { value: 'power', label: 'Power', description: 'Raise implied probabilities to a common power' },
+  { value: 'shin', label: 'Shin', description: 'Model the margin as protection against insider trading' },
+  { value: 'odds_ratio', label: 'Odds Ratio', description: 'Apply a common odds ratio between fair and implied probabilities' }
+]
+
+/**
+ * Find the root of a monotonic function between two bounds by bisection
+ */
+function bisect(fn: (x: number) => number, lo: number, hi: number, iterations = 100): number {
+  let fLo = fn(lo)
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lo + hi) / 2
+    const fMid = fn(mid)
+    if (Math.abs(fMid) < 1e-12) return mid
+    if (Math.sign(fMid) === Math.sign(fLo)) {
+      lo = mid
+      fLo = fMid
+    } else {
+      hi = mid
+    }
+  }
+  return (lo + hi) / 2
+}
+
+function normalise(probabilities: number[]): number[] {
+  const total = probabilities.reduce((sum, p) => sum + p, 0)
+  return probabilities.map(p => p / total)
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+/**
+ * Convert decimal prices into fair probabilities using the given method
+ */
+export function removeMargin(prices: number[], method: MarginMethod = 'proportional'): number[] {
+  const implied = prices.map(price => 1 / price)
+  const booksum = sum(implied)
+
+  // Nothing to remove (or an arbitrage book): fall back to normalising
+  if (prices.length < 2 || booksum <= 1) {
+    return normalise(implied)
+  }
+
+  switch (method) {
+    case 'additive': {
+      const share = (booksum - 1) / prices.length
+      return normalise(implied.map(p => Math.max(p - share, 0)))
+    }
+
+    case 'power': {
+      const k = bisect(exponent => sum(implied.map(p => Math.pow(p, exponent))) - 1, 1, 100)
+      return normalise(implied.map(p => Math.pow(p, k)))
+    }
+
+    case 'shin': {
+      const shinProbabilities = (z: number) => implied.map(p =>
+        (Math.sqrt(z * z + 4 * (1 - z) * (p * p) / booksum) - z) / (2 * (1 - z))
+      )
+      const z = bisect(value => sum(shinProbabilities(value)) - 1, 0, 0.999)
+      return normalise(shinProbabilities(z))
+    }
+
+    case 'odds_ratio': {
+      const oddsRatioProbabilities = (c: number) => implied.map(p => p / (c + p - c * p))
+      const c = bisect(value => sum(oddsRatioProbabilities(value)) - 1, 1, 100)
+      return normalise(oddsRatioProbabilities(c))
+    }
+
+    case 'proportional':
+    default:
+      return normalise(implied)
+  }
+}
@@ -3,7 +3,10 @@
  * and convert odds to probabilities for simulation
  */
 
-import { ScoreProbability } from './oddsConverter'
+import { Match, TotalsOdds } from '../types'
+import { oddsToScoreMatrix, ScoreProbability, scoreMatrixToProbabilities } from './oddsConverter'
+import { matrixOutcomes, matrixOverProbability, matrixProbability, ScoreMatrix, ScoreModelOptions } from './scoreModel'
+import { MarginMethod } from './margin'
 
 export interface SupportedMarket {
   market_type: string
@@ -13,258 +16,227 @@ export interface SupportedMarket {
   example: string
 }
 
-export interface MatchMarkets {
-  h2h?: {
-    home: number
-    draw?: number
-    away: number
-  }
-  totals?: {
-    point: number
-    over: number
-    under: number
-  }
-  bothTeamsToScore?: {
-    yes: number
-    no: number
-  }
-  correctScore?: {
-    scores: Array<{ score: string, odds: number }>
-  }
+export type MatchMarkets = Pick<
+  Match,
+  | 'h2h'
+  | 'totals'
+  | 'bothTeamsToScore'
+  | 'correctScore'
+  | 'alternateTotals'
+  | 'doubleChance'
+  | 'drawNoBet'
+  | 'winningMargin'
+  | 'oddEven'
+>
+
+export interface MarketMargins {
+  bothTeamsToScore: number
+  totals: number
+  correctScore: number
+  doubleChance: number
+  drawNoBet: number
+  winningMargin: number
+  oddEven: number
+}
+
+/**
+ * Bookmaker margin (overround) added to each generated market,
+ * e.g. 0.05 prices a two-way market to a 105% book
+ */
+export const DEFAULT_MARKET_MARGINS: MarketMargins = {
+  bothTeamsToScore: 0.05,
+  totals: 0.05,
+  correctScore: 0.15,
+  doubleChance: 0.04,
+  drawNoBet: 0.04,
+  winningMargin: 0.12,
+  oddEven: 0.04
+}
+
+/** Generated markets whose margin can be changed in Settings */
+export const MARKET_MARGIN_FIELDS: Array<{ value: keyof MarketMargins, label: string, description: string }> = [
+  { value: 'totals', label: 'Totals', description: 'Over/under lines, including alternate totals' },
+  { value: 'bothTeamsToScore', label: 'Both Teams to Score', description: 'Yes/no' },
+  { value: 'correctScore', label: 'Correct Score', description: 'Spread across every listed scoreline' },
+  { value: 'doubleChance', label: 'Double Chance', description: 'Home or draw, draw or away, home or away' },
+  { value: 'drawNoBet', label: 'Draw No Bet', description: 'Home or away, stake returned on a draw' },
+  { value: 'winningMargin', label: 'Winning Margin', description: 'Spread across every listed margin' },
+  { value: 'oddEven', label: 'Odd/Even', description: 'Parity of the total score' }
+]
+
+/** Largest margin that can be set for a generated market */
+export const MAX_MARKET_MARGIN = 0.5
+
+export function clampMarketMargin(margin: number): number {
+  return Math.min(MAX_MARKET_MARGIN, Math.max(0, margin))
+}
+
+export interface ProbabilityOptions {
+  model?: Partial<ScoreModelOptions>
+  /** How the margin is removed from quoted prices before fitting */
+  marginMethod?: MarginMethod
+}
+
+export interface MarketGeneratorOptions extends ProbabilityOptions {
+  margins?: Partial<MarketMargins>
+}
+
+const TOTALS_LINES = [0.5, 1.5, 2.5, 3.5, 4.5]
+const CORRECT_SCORE_MAX_GOALS = 4
+const WINNING_MARGIN_CAP = 3
+
+/**
+ * Price a fair probability with the market's margin applied
+ */
+export function priceWithMargin(probability: number, margin: number): number {
+  if (probability <= 0) return 1000
+  return Math.max(1.01, Math.round(100 / (probability * (1 + margin))) / 100)
+}
+
+/**
+ * Fit the score matrix that every generated market is priced from
+ */
+export function matchScoreMatrix(
+  markets: Pick<Match, 'h2h' | 'totals'>,
+  options: ProbabilityOptions = {}
+): ScoreMatrix | null {
+  if (!markets.h2h) return null
+
+  return oddsToScoreMatrix(
+    markets.h2h.home,
+    markets.h2h.draw,
+    markets.h2h.away,
+    markets.totals?.point,
+    markets.totals?.over,
+    markets.totals?.under,
+    options.model,
+    options.marginMethod
+  )
 }
 
 /**
- * Generate missing markets based on existing odds and probabilities
+ * Generate missing markets based on existing odds
+ *
+ * Every generated market is priced from one score matrix fitted to the
+ * quoted 1X2 and totals prices, so the generated prices agree with each
+ * other and with the distribution sent to the simulator.
  */
 export function generateMissingMarkets(
-  match: { h2h?: { home: number, draw?: number, away: number }, totals?: { point: number, over: number, under: number } },
-  _supportedMarkets?: SupportedMarket[]
+  match: Pick<Match, 'h2h' | 'totals'>,
+  _supportedMarkets?: SupportedMarket[],
+  options: MarketGeneratorOptions = {}
 ): MatchMarkets {
+  const margins = { ...DEFAULT_MARKET_MARGINS, ...options.margins }
   const markets: MatchMarkets = {
     ...(match.h2h ? { h2h: match.h2h } : {}),
     ...(match.totals ? { totals: match.totals } : {})
   }
 
-  // Generate Both Teams To Score odds based on existing probabilities
-  if (!markets.bothTeamsToScore) {
-    const homeProb = match.h2h ? 1 / match.h2h.home : 0.33
-    const awayProb = match.h2h ? 1 / match.h2h.away : 0.33
-    
-    // Estimate BTTS probability based on match outcome probabilities
-    // If both teams are likely to score, higher BTTS probability
-    // Simple heuristic: more balanced teams = higher BTTS chance
-    const teamBalance = Math.min(homeProb, awayProb) / Math.max(homeProb, awayProb)
-    const avgWinProb = (homeProb + awayProb) / 2
-    const bttsProb = 0.4 + (teamBalance * 0.3) + (avgWinProb * 0.2)
-    
-    // Add bookmaker margin (~5%)
-    const margin = 1.05
-    markets.bothTeamsToScore = {
-      yes: (1 / bttsProb) * margin,
-      no: (1 / (1 - bttsProb)) * margin
+  const matrix = matchScoreMatrix(match, options)
+  if (!matrix) return markets
+
+  const probability = (predicate: (home: number, away: number) => boolean) => matrixProbability(matrix, predicate)
+
+  const bttsProb = probability((home, away) => home > 0 && away > 0)
+  markets.bothTeamsToScore = {
+    yes: priceWithMargin(bttsProb, margins.bothTeamsToScore),
+    no: priceWithMargin(1 - bttsProb, margins.bothTeamsToScore)
+  }
+
+  const totalsAt = (point: number) => {
+    const overProb = matrixOverProbability(matrix, point)
+    return {
+      point,
+      over: priceWithMargin(overProb, margins.totals),
+      under: priceWithMargin(1 - overProb, margins.totals)
     }
   }
 
-  // Generate Over/Under markets if missing (for multiple thresholds)
-  if (match.totals) {
-    // Already have totals, but we could add more thresholds
-    // For now, we'll use the existing one
-  } else if (match.h2h) {
-    // Generate a basic over/under 2.5 based on 1X2 odds
-    const homeProb = 1 / match.h2h.home
-    const awayProb = 1 / match.h2h.away
-    const drawProb = match.h2h.draw ? 1 / match.h2h.draw : 0.34
-    
-    // Estimate over 2.5 probability
-    // More attacking teams (higher win probabilities) = more goals
-    const attackRating = (homeProb + awayProb) / 2
-    const over25Prob = 0.3 + (attackRating * 0.4) - (drawProb * 0.2)
-    
-    const margin = 1.05
-    markets.totals = {
-      point: 2.5,
-      over: (1 / over25Prob) * margin,
-      under: (1 / (1 - over25Prob)) * margin
+  if (!markets.totals) {
+    markets.totals = totalsAt(2.5)
+  }
+  markets.alternateTotals = TOTALS_LINES
+    .filter(point => point !== markets.totals!.point)
+    .map(totalsAt)
+
+  const scores: Array<{ score: string, odds: number, probability: number }> = []
+  for (let home = 0; home <= CORRECT_SCORE_MAX_GOALS; home++) {
+    for (let away = 0; away <= CORRECT_SCORE_MAX_GOALS; away++) {
+      const p = matrix[home]?.[away] || 0
+      scores.push({ score: `${home}-${away}`, odds: priceWithMargin(p, margins.correctScore), probability: p })
     }
   }
+  markets.correctScore = {
+    scores: scores
+      .sort((a, b) => b.probability - a.probability)
+      .map(({ score, odds }) => ({ score, odds }))
+  }
 
-  // Generate correct score odds (common scores only)
-  if (!markets.correctScore && match.h2h) {
-    const homeProb = 1 / match.h2h.home
-    const awayProb = 1 / match.h2h.away
-    const drawProb = match.h2h.draw ? 1 / match.h2h.draw : 0.34
-    
-    // Common scores with estimated probabilities
-    const commonScores = [
-      { score: '0-0', prob: drawProb * 0.2 },
-      { score: '1-0', prob: homeProb * 0.15 },
-      { score: '0-1', prob: awayProb * 0.15 },
-      { score: '1-1', prob: drawProb * 0.3 },
-      { score: '2-0', prob: homeProb * 0.12 },
-      { score: '0-2', prob: awayProb * 0.12 },
-      { score: '2-1', prob: homeProb * 0.18 },
-      { score: '1-2', prob: awayProb * 0.18 },
-      { score: '2-2', prob: drawProb * 0.2 },
-      { score: '3-0', prob: homeProb * 0.08 },
-      { score: '0-3', prob: awayProb * 0.08 },
-      { score: '3-1', prob: homeProb * 0.1 },
-      { score: '1-3', prob: awayProb * 0.1 },
-      { score: '3-2', prob: (homeProb + awayProb) * 0.05 },
-      { score: '4-0', prob: homeProb * 0.03 },
-      { score: '0-4', prob: awayProb * 0.03 }
-    ]
-    
-    // Normalize probabilities
-    const totalProb = commonScores.reduce((sum, s) => sum + s.prob, 0)
-    const margin = 1.1
-    
-    markets.correctScore = {
-      scores: commonScores.map(s => ({
-        score: s.score,
-        odds: (1 / (s.prob / totalProb)) * margin
-      }))
+  const { home: homeWin, draw, away: awayWin } = matrixOutcomes(matrix)
+  markets.doubleChance = {
+    homeOrDraw: priceWithMargin(homeWin + draw, margins.doubleChance),
+    drawOrAway: priceWithMargin(draw + awayWin, margins.doubleChance),
+    homeOrAway: priceWithMargin(homeWin + awayWin, margins.doubleChance)
+  }
+
+  markets.drawNoBet = {
+    home: priceWithMargin(homeWin / (homeWin + awayWin), margins.drawNoBet),
+    away: priceWithMargin(awayWin / (homeWin + awayWin), margins.drawNoBet)
+  }
+
+  const marginOutcomes: Array<{ outcome: string, probability: number }> = []
+  for (const side of ['home', 'away'] as const) {
+    for (let goals = 1; goals <= WINNING_MARGIN_CAP; goals++) {
+      const isCapped = goals === WINNING_MARGIN_CAP
+      marginOutcomes.push({
+        outcome: `${side}_${goals}${isCapped ? '+' : ''}`,
+        probability: probability((home, away) => {
+          const diff = side === 'home' ? home - away : away - home
+          return isCapped ? diff >= goals : diff === goals
+        })
+      })
     }
   }
+  marginOutcomes.push({ outcome: 'draw', probability: draw })
+  markets.winningMargin = marginOutcomes.map(({ outcome, probability: p }) => ({
+    outcome,
+    odds: priceWithMargin(p, margins.winningMargin)
+  }))
+
+  const oddProb = probability((home, away) => (home + away) % 2 === 1)
+  markets.oddEven = {
+    odd: priceWithMargin(oddProb, margins.oddEven),
+    even: priceWithMargin(1 - oddProb, margins.oddEven)
+  }
 
   return markets
 }
 
+/**
+ * Combine quoted and generated alternate totals lines
+ * Quoted lines win; generated lines fill the gaps
+ */
+export function mergeAlternateTotals(quoted: TotalsOdds[] = [], generated: TotalsOdds[] = []): TotalsOdds[] | undefined {
+  const quotedPoints = new Set(quoted.map(line => line.point))
+  const merged = [...quoted, ...generated.filter(line => !quotedPoints.has(line.point))]
+  return merged.length > 0 ? merged.sort((a, b) => a.point - b.point) : undefined
+}
+
 /**
  * Convert odds to probabilities for all markets
  * Used when sending to simulation API
+ *
+ * The score distribution is fitted to the quoted 1X2 and totals prices.
+ * BTTS and correct score are derived from the same distribution, so they
+ * are not used as inputs.
  */
 export function oddsToProbabilities(
   markets: MatchMarkets,
-  _supportedMarkets?: SupportedMarket[]
+  _supportedMarkets?: SupportedMarket[],
+  options: ProbabilityOptions = {}
 ): ScoreProbability[] {
-  // Start with base 1X2 probabilities
-  let scoreProbabilities: ScoreProbability[] = []
-  
-  if (markets.h2h) {
-    const homeProb = 1 / markets.h2h.home
-    const drawProb = markets.h2h.draw ? 1 / markets.h2h.draw : 0
-    const awayProb = 1 / markets.h2h.away
-    
-    const total = homeProb + drawProb + awayProb
-    const normHome = homeProb / total
-    const normDraw = drawProb / total
-    const normAway = awayProb / total
-    
-    // Generate score distributions
-    const homeWinScores = [
-      { home: 1, away: 0, weight: 0.35 },
-      { home: 2, away: 0, weight: 0.20 },
-      { home: 2, away: 1, weight: 0.18 },
-      { home: 3, away: 0, weight: 0.10 },
-      { home: 3, away: 1, weight: 0.10 },
-      { home: 4, away: 0, weight: 0.04 },
-      { home: 3, away: 2, weight: 0.03 }
-    ]
-    
-    for (const score of homeWinScores) {
-      scoreProbabilities.push({
-        home_score: score.home,
-        away_score: score.away,
-        probability: normHome * score.weight
-      })
-    }
-    
-    const drawScores = [
-      { home: 0, away: 0, weight: 0.30 },
-      { home: 1, away: 1, weight: 0.40 },
-      { home: 2, away: 2, weight: 0.20 },
-      { home: 3, away: 3, weight: 0.10 }
-    ]
-    
-    for (const score of drawScores) {
-      scoreProbabilities.push({
-        home_score: score.home,
-        away_score: score.away,
-        probability: normDraw * score.weight
-      })
-    }
-    
-    const awayWinScores = [
-      { home: 0, away: 1, weight: 0.35 },
-      { home: 0, away: 2, weight: 0.20 },
-      { home: 1, away: 2, weight: 0.18 },
-      { home: 0, away: 3, weight: 0.10 },
-      { home: 1, away: 3, weight: 0.10 },
-      { home: 0, away: 4, weight: 0.04 },
-      { home: 2, away: 3, weight: 0.03 }
-    ]
-    
-    for (const score of awayWinScores) {
-      scoreProbabilities.push({
-        home_score: score.home,
-        away_score: score.away,
-        probability: normAway * score.weight
-      })
-    }
-    
-    // Adjust based on Over/Under if available
-    if (markets.totals) {
-      const overProb = 1 / markets.totals.over
-      const underProb = 1 / markets.totals.under
-      const totalProb = overProb + underProb
-      const normOver = overProb / totalProb
-      
-      scoreProbabilities = scoreProbabilities.map(sp => {
-        const totalGoals = sp.home_score + sp.away_score
-        if (totalGoals > markets.totals!.point) {
-          return {
-            ...sp,
-            probability: sp.probability * (0.5 + normOver * 0.5)
-          }
-        } else if (totalGoals < markets.totals!.point) {
-          return {
-            ...sp,
-            probability: sp.probability * (0.5 + (1 - normOver) * 0.5)
-          }
-        }
-        return sp
-      })
-      
-      // Normalize
-      const totalAdjusted = scoreProbabilities.reduce((sum, sp) => sum + sp.probability, 0)
-      scoreProbabilities = scoreProbabilities.map(sp => ({
-        ...sp,
-        probability: sp.probability / totalAdjusted
-      }))
-    }
-    
-    // Adjust based on Both Teams To Score if available
-    if (markets.bothTeamsToScore) {
-      const bttsYesProb = 1 / markets.bothTeamsToScore.yes
-      const bttsNoProb = 1 / markets.bothTeamsToScore.no
-      const totalBTTS = bttsYesProb + bttsNoProb
-      const normBTTSYes = bttsYesProb / totalBTTS
-      
-      scoreProbabilities = scoreProbabilities.map(sp => {
-        const bothScored = sp.home_score > 0 && sp.away_score > 0
-        if (bothScored) {
-          return {
-            ...sp,
-            probability: sp.probability * (0.5 + normBTTSYes * 0.5)
-          }
-        } else {
-          return {
-            ...sp,
-            probability: sp.probability * (0.5 + (1 - normBTTSYes) * 0.5)
-          }
-        }
-      })
-      
-      // Normalize again
-      const totalAdjusted = scoreProbabilities.reduce((sum, sp) => sum + sp.probability, 0)
-      scoreProbabilities = scoreProbabilities.map(sp => ({
-        ...sp,
-        probability: sp.probability / totalAdjusted
-      }))
-    }
-  }
-  
-  return scoreProbabilities
+  const matrix = matchScoreMatrix(markets, options)
+  return matrix ? scoreMatrixToProbabilities(matrix) : []
 }
 
 /**
@@ -275,11 +247,25 @@ export function getMarketDisplayName(marketType: string): string {
     '1X2': '1X2',
     'over_under': 'Over/Under',
     'both_teams_to_score': 'Both Teams To Score',
-    'correct_score': 'Correct Score'
+    'correct_score': 'Correct Score',
+    'asian_handicap': 'Asian Handicap',
+    'double_chance': 'Double Chance',
+    'draw_no_bet': 'Draw No Bet',
+    'winning_margin': 'Winning Margin',
+    'odd_even': 'Odd/Even Goals'
   }
   return names[marketType] || marketType
 }
 
+/**
+ * Display label for a winning margin outcome such as `home_3+`
+ */
+export function getWinningMarginLabel(outcome: string, homeTeam: string, awayTeam: string): string {
+  if (outcome === 'draw') return 'Draw'
+  const [side, goals] = outcome.split('_')
+  return `${side === 'home' ? homeTeam : awayTeam} by ${goals}`
+}
+
 /**
  * Convert frontend market to API market format
  */
@@ -294,6 +280,13 @@ export function convertMarketToAPI(market: string, side: string, point?: number)
       market: 'over_under',
       outcome: `${side}_${point}`
     }
+  } else if (market === 'spreads') {
+    // point is the home line; the away side takes the opposite handicap
+    const line = side === 'home' ? point! : -point!
+    return {
+      market: 'asian_handicap',
+      outcome: `${side}_${line}`
+    }
   } else if (market === 'btts') {
     return {
       market: 'both_teams_to_score',
@@ -304,6 +297,26 @@ export function convertMarketToAPI(market: string, side: string, point?: number)
       market: 'correct_score',
       outcome: side // side contains the score like "2-1"
     }
+  } else if (market === 'double_chance') {
+    return {
+      market: 'double_chance',
+      outcome: side // '1X', 'X2' or '12'
+    }
+  } else if (market === 'draw_no_bet') {
+    return {
+      market: 'draw_no_bet',
+      outcome: side === 'home' ? '1' : '2'
+    }
+  } else if (market === 'winning_margin') {
+    return {
+      market: 'winning_margin',
+      outcome: side // 'home_1', 'home_3+', 'draw', ...
+    }
+  } else if (market === 'odd_even') {
+    return {
+      market: 'odd_even',
+      outcome: side
+    }
   }
   return { market, outcome: side }
 }
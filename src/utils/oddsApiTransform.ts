@@ -0,0 +1,357 @@
+/**
+ * Transforms from Odds API v4 payloads into the app's domain types
+ */
+
+import { BestPriceSources, BookmakerOdds, League, Match, MatchScore, Outright, OutrightPrice } from '../types'
+import { sportFromGroup, sportFromKey } from './sports'
+
+export interface OddsApiSport {
+  key: string
+  group: string
+  title: string
+  description?: string
+  active: boolean
+  has_outrights: boolean
+}
+
+export interface OddsApiOutcome {
+  name: string
+  price: number
+  point?: number
+}
+
+export interface OddsApiMarket {
+  key: string
+  last_update?: string
+  outcomes?: OddsApiOutcome[]
+}
+
+export interface OddsApiBookmaker {
+  key: string
+  title: string
+  last_update?: string
+  markets?: OddsApiMarket[]
+}
+
+export interface OddsApiEvent {
+  id: string
+  sport_key: string
+  sport_title: string
+  commence_time: string
+  home_team: string
+  away_team: string
+  bookmakers?: OddsApiBookmaker[]
+}
+
+export interface OddsApiScoreEvent {
+  id: string
+  sport_key: string
+  commence_time: string
+  completed: boolean
+  home_team: string
+  away_team: string
+  /** Null until the match has started; scores are strings */
+  scores: Array<{ name: string, score: string }> | null
+  last_update: string | null
+}
+
+/**
+ * Pick the leagues offered in the league picker
+ */
+export function sportsToLeagues(sports: OddsApiSport[]): League[] {
+  return sports
+    .filter(sport => sport.active && sportFromGroup(sport.group))
+    .map(sport => ({
+      key: sport.key,
+      title: sport.title,
+      sport: sportFromGroup(sport.group)!,
+      hasOutrights: sport.has_outrights
+    }))
+}
+
+/**
+ * Extract one bookmaker's prices for an event
+ */
+export function parseBookmaker(event: OddsApiEvent, bookmaker: OddsApiBookmaker): BookmakerOdds {
+  const h2hMarket = bookmaker.markets?.find(m => m.key === 'h2h')
+  const spreadsMarket = bookmaker.markets?.find(m => m.key === 'spreads')
+  const totalsMarket = bookmaker.markets?.find(m => m.key === 'totals')
+
+  const odds: BookmakerOdds = {
+    key: bookmaker.key,
+    title: bookmaker.title,
+    lastUpdate: bookmaker.last_update
+  }
+
+  if (h2hMarket) {
+    const homeOutcome = h2hMarket.outcomes?.find(o => o.name === event.home_team)
+    const awayOutcome = h2hMarket.outcomes?.find(o => o.name === event.away_team)
+    const drawOutcome = h2hMarket.outcomes?.find(o => o.name === 'Draw')
+
+    if (homeOutcome && awayOutcome) {
+      odds.h2h = {
+        home: homeOutcome.price || 2.0,
+        draw: drawOutcome?.price,
+        away: awayOutcome.price || 2.0
+      }
+    }
+  }
+
+  if (spreadsMarket?.outcomes && spreadsMarket.outcomes.length >= 2) {
+    const homeOutcome = spreadsMarket.outcomes.find(o => o.name === event.home_team)
+    const awayOutcome = spreadsMarket.outcomes.find(o => o.name === event.away_team)
+
+    if (homeOutcome && awayOutcome && homeOutcome.point !== undefined) {
+      odds.spread = {
+        point: homeOutcome.point,
+        home: homeOutcome.price || 2.0,
+        away: awayOutcome.price || 2.0
+      }
+    }
+  }
+
+  if (totalsMarket?.outcomes && totalsMarket.outcomes.length >= 2) {
+    const overOutcome = totalsMarket.outcomes.find(o => o.name === 'Over')
+    const underOutcome = totalsMarket.outcomes.find(o => o.name === 'Under')
+
+    if (overOutcome && underOutcome && overOutcome.point !== undefined) {
+      odds.totals = {
+        point: overOutcome.point,
+        over: overOutcome.price || 2.0,
+        under: underOutcome.price || 2.0
+      }
+    }
+  }
+
+  const layMarket = bookmaker.markets?.find(m => m.key === 'h2h_lay')
+  if (layMarket) {
+    const homeOutcome = layMarket.outcomes?.find(o => o.name === event.home_team)
+    const awayOutcome = layMarket.outcomes?.find(o => o.name === event.away_team)
+    const drawOutcome = layMarket.outcomes?.find(o => o.name === 'Draw')
+
+    if (homeOutcome && awayOutcome) {
+      odds.h2hLay = {
+        home: homeOutcome.price,
+        draw: drawOutcome?.price,
+        away: awayOutcome.price
+      }
+    }
+  }
+
+  const alternateTotalsMarket = bookmaker.markets?.find(m => m.key === 'alternate_totals')
+  if (alternateTotalsMarket?.outcomes) {
+    const points = [...new Set(alternateTotalsMarket.outcomes.map(o => o.point).filter((p): p is number => p !== undefined))]
+    odds.alternateTotals = points
+      .map(point => ({
+        point,
+        over: alternateTotalsMarket.outcomes!.find(o => o.name === 'Over' && o.point === point)?.price || 0,
+        under: alternateTotalsMarket.outcomes!.find(o => o.name === 'Under' && o.point === point)?.price || 0
+      }))
+      .filter(line => line.over > 0 && line.under > 0)
+      .sort((a, b) => a.point - b.point)
+  }
+
+  const bttsMarket = bookmaker.markets?.find(m => m.key === 'btts')
+  if (bttsMarket) {
+    const yesOutcome = bttsMarket.outcomes?.find(o => o.name === 'Yes')
+    const noOutcome = bttsMarket.outcomes?.find(o => o.name === 'No')
+
+    if (yesOutcome && noOutcome) {
+      odds.bothTeamsToScore = { yes: yesOutcome.price, no: noOutcome.price }
+    }
+  }
+
+  const drawNoBetMarket = bookmaker.markets?.find(m => m.key === 'draw_no_bet')
+  if (drawNoBetMarket) {
+    const homeOutcome = drawNoBetMarket.outcomes?.find(o => o.name === event.home_team)
+    const awayOutcome = drawNoBetMarket.outcomes?.find(o => o.name === event.away_team)
+
+    if (homeOutcome && awayOutcome) {
+      odds.drawNoBet = { home: homeOutcome.price, away: awayOutcome.price }
+    }
+  }
+
+  return odds
+}
+
+/**
+ * Highest price for one outcome and the bookmaker offering it
+ */
+function bestOf(bookmakers: BookmakerOdds[], price: (b: BookmakerOdds) => number | undefined): { price: number, title: string } | null {
+  let best: { price: number, title: string } | null = null
+  for (const bookmaker of bookmakers) {
+    const value = price(bookmaker)
+    if (value && (!best || value > best.price)) {
+      best = { price: value, title: bookmaker.title }
+    }
+  }
+  return best
+}
+
+/**
+ * Most commonly quoted line, so best prices are compared like for like
+ */
+function mainLine(points: number[]): number | undefined {
+  const counts = new Map<number, number>()
+  points.forEach(point => counts.set(point, (counts.get(point) || 0) + 1))
+
+  let line: number | undefined
+  let lineCount = 0
+  counts.forEach((count, point) => {
+    if (count > lineCount) {
+      line = point
+      lineCount = count
+    }
+  })
+  return line
+}
+
+/**
+ * Transform an Odds API event into a Match, keeping every bookmaker and
+ * taking the best price per outcome across them
+ */
+export function eventToMatch(event: OddsApiEvent): Match {
+  const bookmakers = (event.bookmakers || [])
+    .map(bookmaker => parseBookmaker(event, bookmaker))
+    .filter(b => b.h2h || b.spread || b.totals || b.bothTeamsToScore || b.drawNoBet || b.alternateTotals?.length)
+
+  const commenceTime = new Date(event.commence_time)
+  const timeStr = commenceTime.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  const match: Match = {
+    id: event.id,
+    sport: sportFromKey(event.sport_key) || 'soccer',
+    sportKey: event.sport_key,
+    league: event.sport_title,
+    homeTeam: event.home_team,
+    awayTeam: event.away_team,
+    time: timeStr,
+    commenceTime: event.commence_time,
+    bookmakers
+  }
+  const sources: BestPriceSources = {}
+
+  const home = bestOf(bookmakers, b => b.h2h?.home)
+  const away = bestOf(bookmakers, b => b.h2h?.away)
+  const draw = bestOf(bookmakers, b => b.h2h?.draw)
+  if (home && away) {
+    match.h2h = { home: home.price, draw: draw?.price, away: away.price }
+    sources.h2h = { home: home.title, draw: draw?.title, away: away.title }
+  }
+
+  const spreadLine = mainLine(bookmakers.filter(b => b.spread).map(b => b.spread!.point))
+  if (spreadLine !== undefined) {
+    const atLine = bookmakers.filter(b => b.spread?.point === spreadLine)
+    const spreadHome = bestOf(atLine, b => b.spread?.home)!
+    const spreadAway = bestOf(atLine, b => b.spread?.away)!
+    match.spread = { point: spreadLine, home: spreadHome.price, away: spreadAway.price }
+    sources.spread = { home: spreadHome.title, away: spreadAway.title }
+  }
+
+  const totalsLine = mainLine(bookmakers.filter(b => b.totals).map(b => b.totals!.point))
+  if (totalsLine !== undefined) {
+    const atLine = bookmakers.filter(b => b.totals?.point === totalsLine)
+    const over = bestOf(atLine, b => b.totals?.over)!
+    const under = bestOf(atLine, b => b.totals?.under)!
+    match.totals = { point: totalsLine, over: over.price, under: under.price }
+    sources.totals = { over: over.title, under: under.title }
+  }
+
+  const alternateLines = [...new Set(bookmakers.flatMap(b => (b.alternateTotals || []).map(line => line.point)))]
+    .filter(point => point !== totalsLine)
+    .sort((a, b) => a - b)
+  if (alternateLines.length > 0) {
+    match.alternateTotals = alternateLines.map(point => {
+      const lineOf = (b: BookmakerOdds) => b.alternateTotals?.find(line => line.point === point)
+      return {
+        point,
+        over: bestOf(bookmakers, b => lineOf(b)?.over)!.price,
+        under: bestOf(bookmakers, b => lineOf(b)?.under)!.price
+      }
+    })
+  }
+
+  const bttsYes = bestOf(bookmakers, b => b.bothTeamsToScore?.yes)
+  const bttsNo = bestOf(bookmakers, b => b.bothTeamsToScore?.no)
+  if (bttsYes && bttsNo) {
+    match.bothTeamsToScore = { yes: bttsYes.price, no: bttsNo.price }
+    sources.bothTeamsToScore = { yes: bttsYes.title, no: bttsNo.title }
+  }
+
+  const drawNoBetHome = bestOf(bookmakers, b => b.drawNoBet?.home)
+  const drawNoBetAway = bestOf(bookmakers, b => b.drawNoBet?.away)
+  if (drawNoBetHome && drawNoBetAway) {
+    match.drawNoBet = { home: drawNoBetHome.price, away: drawNoBetAway.price }
+    sources.drawNoBet = { home: drawNoBetHome.title, away: drawNoBetAway.title }
+  }
+
+  match.bestPriceSources = sources
+  return match
+}
+
+/**
+ * Transform a list of events into the matches shown for a league
+ */
+export function eventsToMatches(events: OddsApiEvent[], bookmakerAllowList: string[] = []): Match[] {
+  return events.map(event => eventToMatch(filterBookmakers(event, bookmakerAllowList)))
+}
+
+/**
+ * Drop bookmakers outside the allow-list (an empty list allows all)
+ */
+export function filterBookmakers(event: OddsApiEvent, bookmakerAllowList: string[]): OddsApiEvent {
+  if (bookmakerAllowList.length === 0) return event
+  return {
+    ...event,
+    bookmakers: (event.bookmakers || []).filter(b => bookmakerAllowList.includes(b.key))
+  }
+}
+
+/**
+ * Transform outright events into competitions with the best price per
+ * participant across bookmakers
+ */
+export function eventsToOutrights(events: OddsApiEvent[], bookmakerAllowList: string[] = []): Outright[] {
+  return events.map(event => {
+    const best = new Map<string, OutrightPrice>()
+    filterBookmakers(event, bookmakerAllowList).bookmakers?.forEach(bookmaker => {
+      bookmaker.markets?.find(m => m.key === 'outrights')?.outcomes?.forEach(outcome => {
+        const current = best.get(outcome.name)
+        if (!current || outcome.price > current.odds) {
+          best.set(outcome.name, { name: outcome.name, odds: outcome.price, bookmaker: bookmaker.title })
+        }
+      })
+    })
+
+    return {
+      id: event.id,
+      sport: sportFromKey(event.sport_key) || 'soccer',
+      sportKey: event.sport_key,
+      competition: event.sport_title,
+      time: new Date(event.commence_time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+      participants: Array.from(best.values()).sort((a, b) => a.odds - b.odds)
+    }
+  }).filter(outright => outright.participants.length > 0)
+}
+
+/**
+ * Transform scores-feed events into match scores, matched to teams by name
+ */
+export function scoreEventsToMatchScores(events: OddsApiScoreEvent[]): MatchScore[] {
+  return events.map(event => {
+    const home = event.scores?.find(score => score.name === event.home_team)
+    const away = event.scores?.find(score => score.name === event.away_team)
+    return {
+      matchId: event.id,
+      sportKey: event.sport_key,
+      commenceTime: event.commence_time,
+      completed: event.completed,
+      ...(home && away ? { homeScore: parseInt(home.score), awayScore: parseInt(away.score) } : {})
+    }
+  })
+}
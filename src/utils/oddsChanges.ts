@@ -0,0 +1,51 @@
+/**
+ * Tracking price changes on bet slip selections
+ *
+ * A selection keeps the price it was added at until the change is accepted,
+ * either by the user or automatically under their OddsChangePolicy.
+ */
+
+import { Match, Outright, Selection } from '../types'
+import { getSelectionOdds } from './cashOut'
+
+export type OddsChangePolicy = 'accept_any' | 'accept_higher' | 'ask'
+
+export const ODDS_CHANGE_POLICIES: Array<{ value: OddsChangePolicy, label: string, description: string }> = [
+  { value: 'ask', label: 'Ask', description: 'Confirm every price change before placing' },
+  { value: 'accept_higher', label: 'Accept Higher', description: 'Take better prices automatically, confirm shorter ones' },
+  { value: 'accept_any', label: 'Accept Any', description: 'Always place at the latest price' }
+]
+
+/**
+ * Latest price of a selection in its current match or outright market,
+ * undefined when it isn't loaded or no longer offered
+ */
+export function getLatestOdds(selection: Selection, current: { match?: Match, outright?: Outright }): number | undefined {
+  if (selection.market === 'outright') {
+    return current.outright?.participants.find(p => p.name === selection.side)?.odds
+  }
+  return current.match && getSelectionOdds(current.match, selection)
+}
+
+/**
+ * Whether the policy takes a price change without asking
+ */
+export function isAutoAccepted(policy: OddsChangePolicy, odds: number, latestOdds: number): boolean {
+  if (policy === 'accept_any') return true
+  if (policy === 'accept_higher') return latestOdds > odds
+  return false
+}
+
+/**
+ * The selection moved to its latest price, remembering the one it replaced
+ */
+export function acceptOddsChange(selection: Selection, latestOdds: number): Selection {
+  return { ...selection, odds: latestOdds, previousOdds: selection.odds }
+}
+
+/**
+ * Whether a price has moved by at least the 0.01 the slip displays
+ */
+export function hasOddsChanged(odds: number, latestOdds: number): boolean {
+  return Math.abs(odds - latestOdds) >= 0.005
+}
@@ -2,6 +2,9 @@
  * Utility to convert betting odds into score probabilities for match simulation
  */
 
+import { buildScoreMatrix, fitExpectedGoals, ScoreMatrix, ScoreModelOptions } from './scoreModel'
+import { MarginMethod, removeMargin } from './margin'
+
 export interface ScoreProbability {
   home_score: number
   away_score: number
@@ -9,87 +12,42 @@ export interface ScoreProbability {
 }
 
 /**
- * Convert 1X2 odds to implied probabilities and generate score probability distribution
+ * Flatten a score matrix into the list format the simulation API expects
+ */
+export function scoreMatrixToProbabilities(matrix: ScoreMatrix): ScoreProbability[] {
+  const scoreProbabilities: ScoreProbability[] = []
+
+  matrix.forEach((row, homeScore) => row.forEach((probability, awayScore) => {
+    scoreProbabilities.push({
+      home_score: homeScore,
+      away_score: awayScore,
+      probability
+    })
+  }))
+
+  return scoreProbabilities
+}
+
+/**
+ * Convert 1X2 odds to a score probability distribution
  * 
  * Algorithm:
- * 1. Convert odds to implied probabilities (accounts for bookmaker margin)
- * 2. Normalize probabilities
- * 3. Generate realistic score distributions based on match outcome probabilities
+ * 1. Convert odds to fair probabilities, removing the bookmaker margin with the given method
+ * 2. Fit home/away expected goals and expand them into a Dixon-Coles score matrix
  */
 export function oddsToScoreProbabilities(
   homeOdds: number,
   drawOdds: number | undefined,
-  awayOdds: number
+  awayOdds: number,
+  options?: Partial<ScoreModelOptions>,
+  marginMethod?: MarginMethod
 ): ScoreProbability[] {
-  const homeProb = 1 / homeOdds
-  const drawProb = drawOdds ? 1 / drawOdds : 0
-  const awayProb = 1 / awayOdds
-  
-  const total = homeProb + drawProb + awayProb
-  
-  const normHome = homeProb / total
-  const normDraw = drawProb / total
-  const normAway = awayProb / total
-  
-  const scoreProbabilities: ScoreProbability[] = []
-  
-  const homeWinScores = [
-    { home: 1, away: 0, weight: 0.35 }, // Most common home win
-    { home: 2, away: 0, weight: 0.20 },
-    { home: 2, away: 1, weight: 0.18 },
-    { home: 3, away: 0, weight: 0.10 },
-    { home: 3, away: 1, weight: 0.10 },
-    { home: 4, away: 0, weight: 0.04 },
-    { home: 3, away: 2, weight: 0.03 }
-  ]
-  
-  for (const score of homeWinScores) {
-    scoreProbabilities.push({
-      home_score: score.home,
-      away_score: score.away,
-      probability: normHome * score.weight
-    })
-  }
-  
-  const drawScores = [
-    { home: 0, away: 0, weight: 0.30 },
-    { home: 1, away: 1, weight: 0.40 },
-    { home: 2, away: 2, weight: 0.20 },
-    { home: 3, away: 3, weight: 0.10 }
-  ]
-  
-  for (const score of drawScores) {
-    scoreProbabilities.push({
-      home_score: score.home,
-      away_score: score.away,
-      probability: normDraw * score.weight
-    })
-  }
-  
-  const awayWinScores = [
-    { home: 0, away: 1, weight: 0.35 },
-    { home: 0, away: 2, weight: 0.20 },
-    { home: 1, away: 2, weight: 0.18 },
-    { home: 0, away: 3, weight: 0.10 },
-    { home: 1, away: 3, weight: 0.10 },
-    { home: 0, away: 4, weight: 0.04 },
-    { home: 2, away: 3, weight: 0.03 }
-  ]
-  
-  for (const score of awayWinScores) {
-    scoreProbabilities.push({
-      home_score: score.home,
-      away_score: score.away,
-      probability: normAway * score.weight
-    })
-  }
-  
-  return scoreProbabilities
+  return oddsToScoreProbabilitiesWithTotals(homeOdds, drawOdds, awayOdds, undefined, undefined, undefined, options, marginMethod)
 }
 
 /**
- * Enhanced version that considers totals (over/under) odds
- * to adjust the score distribution for higher/lower scoring matches
+ * Enhanced version that also fits the over/under odds, so the expected
+ * total goals of the distribution match the totals market
  */
 export function oddsToScoreProbabilitiesWithTotals(
   homeOdds: number,
@@ -97,42 +55,45 @@ export function oddsToScoreProbabilitiesWithTotals(
   awayOdds: number,
   totalsPoint?: number,
   overOdds?: number,
-  underOdds?: number
+  underOdds?: number,
+  options?: Partial<ScoreModelOptions>,
+  marginMethod?: MarginMethod
 ): ScoreProbability[] {
-  let scoreProbabilities = oddsToScoreProbabilities(homeOdds, drawOdds, awayOdds)
-  
-  if (totalsPoint && overOdds && underOdds) {
-    const overProb = 1 / overOdds
-    const underProb = 1 / underOdds
-    const totalProb = overProb + underProb
-    
-    const normOver = overProb / totalProb
-    const normUnder = underProb / totalProb
-    
-    scoreProbabilities = scoreProbabilities.map(sp => {
-      const totalGoals = sp.home_score + sp.away_score
-      
-      if (totalGoals > totalsPoint) {
-        return {
-          ...sp,
-          probability: sp.probability * (0.5 + normOver * 0.5)
-        }
-      } else if (totalGoals < totalsPoint) {
-        return {
-          ...sp,
-          probability: sp.probability * (0.5 + normUnder * 0.5)
-        }
-      }
-      
-      return sp
-    })
-    
-    const totalAdjusted = scoreProbabilities.reduce((sum, sp) => sum + sp.probability, 0)
-    scoreProbabilities = scoreProbabilities.map(sp => ({
-      ...sp,
-      probability: sp.probability / totalAdjusted
-    }))
+  return scoreMatrixToProbabilities(
+    oddsToScoreMatrix(homeOdds, drawOdds, awayOdds, totalsPoint, overOdds, underOdds, options, marginMethod)
+  )
+}
+
+/**
+ * Fit a score matrix to 1X2 and (optionally) over/under odds
+ */
+export function oddsToScoreMatrix(
+  homeOdds: number,
+  drawOdds: number | undefined,
+  awayOdds: number,
+  totalsPoint?: number,
+  overOdds?: number,
+  underOdds?: number,
+  options?: Partial<ScoreModelOptions>,
+  marginMethod: MarginMethod = 'proportional'
+): ScoreMatrix {
+  let outcomes
+  if (drawOdds) {
+    const [home, draw, away] = removeMargin([homeOdds, drawOdds, awayOdds], marginMethod)
+    outcomes = { home, draw, away }
+  } else {
+    const [home, away] = removeMargin([homeOdds, awayOdds], marginMethod)
+    outcomes = { home, draw: 0, away }
   }
-  
-  return scoreProbabilities
+
+  let totals
+  if (totalsPoint !== undefined && overOdds && underOdds) {
+    totals = {
+      point: totalsPoint,
+      over: removeMargin([overOdds, underOdds], marginMethod)[0]
+    }
+  }
+
+  const expectedGoals = fitExpectedGoals(outcomes, totals, options)
+  return buildScoreMatrix(expectedGoals, options)
 }
@@ -0,0 +1,111 @@
+/**
+ * Odds provider abstraction
+ *
+ * The app talks to an OddsProvider rather than to The Odds API directly, so the
+ * same UI can run against live odds or against recorded JSON snapshots.
+ * Both implementations consume Odds API v4 shaped payloads and share the
+ * transforms in oddsApiTransform.
+ */
+
+import { League, Match, MatchScore, Outright } from '../types'
+import { createTheOddsApiProvider } from './theOddsApiProvider'
+import { createFixtureOddsProvider } from './fixtureOddsProvider'
+
+export interface OddsResult {
+  matches: Match[]
+  /** Remaining request quota, when the provider reports one */
+  requestsRemaining: number | null
+}
+
+export interface OutrightsResult {
+  outrights: Outright[]
+  requestsRemaining: number | null
+}
+
+export interface ScoresResult {
+  scores: MatchScore[]
+  requestsRemaining: number | null
+}
+
+export type OddsRegion = 'uk' | 'eu' | 'us' | 'au'
+
+export const ODDS_REGIONS: Array<{ value: OddsRegion, label: string }> = [
+  { value: 'uk', label: 'United Kingdom' },
+  { value: 'eu', label: 'Europe' },
+  { value: 'us', label: 'United States' },
+  { value: 'au', label: 'Australia' }
+]
+
+/** Markets always requested; the match card is built around them */
+export const BASE_ODDS_MARKETS = ['h2h', 'spreads', 'totals']
+
+export const EXTRA_ODDS_MARKETS: Array<{ value: string, label: string }> = [
+  { value: 'h2h_lay', label: 'Exchange Lay (h2h_lay)' },
+  { value: 'alternate_totals', label: 'Alternate Totals' },
+  { value: 'btts', label: 'Both Teams To Score' },
+  { value: 'draw_no_bet', label: 'Draw No Bet' }
+]
+
+export interface OddsRequest {
+  regions: OddsRegion[]
+  markets: string[]
+  /** Bookmaker keys to keep; empty keeps every bookmaker in the regions */
+  bookmakers: string[]
+}
+
+export const DEFAULT_ODDS_REQUEST: OddsRequest = {
+  regions: ['uk'],
+  markets: BASE_ODDS_MARKETS,
+  bookmakers: []
+}
+
+/**
+ * The request for an outrights league: same regions and bookmakers, with the
+ * outrights market only
+ */
+export function toOutrightsRequest(request: OddsRequest): OddsRequest {
+  return { ...request, markets: ['outrights'] }
+}
+
+export interface OddsProvider {
+  name: string
+  fetchLeagues(): Promise<League[]>
+  fetchOdds(leagueKey: string, request?: OddsRequest): Promise<OddsResult>
+  /** Futures prices for a league with `hasOutrights` */
+  fetchOutrights(leagueKey: string, request?: OddsRequest): Promise<OutrightsResult>
+  /** Live and upcoming scores for a league, plus matches completed in the last `daysFrom` days when given */
+  fetchScores(leagueKey: string, daysFrom?: number): Promise<ScoresResult>
+}
+
+/**
+ * Cache key covering everything that changes the response, so data from
+ * one region, market set or provider is never served for another
+ */
+export function oddsRequestKey(providerName: string, leagueKey: string, request: OddsRequest): string {
+  return [
+    providerName,
+    leagueKey,
+    [...request.regions].sort().join(','),
+    [...request.markets].sort().join(','),
+    [...request.bookmakers].sort().join(',')
+  ].join('|')
+}
+
+export type OddsProviderKind = 'the-odds-api' | 'fixture'
+
+/**
+ * Create the provider configured through VITE_ODDS_PROVIDER
+ *
+ * The live provider needs VITE_ODDS_API_KEY; without one the recorded
+ * fixtures are used instead, so no key is ever built into the bundle.
+ */
+export function createOddsProvider(kind: OddsProviderKind = import.meta.env.VITE_ODDS_PROVIDER || 'the-odds-api'): OddsProvider {
+  const apiKey = import.meta.env.VITE_ODDS_API_KEY
+  if (kind === 'the-odds-api' && !apiKey) {
+    console.warn('VITE_ODDS_API_KEY is not set; using the recorded odds fixtures instead of The Odds API')
+  }
+  if (kind === 'fixture' || !apiKey) {
+    return createFixtureOddsProvider(import.meta.env.VITE_ODDS_FIXTURES_URL || '/fixtures/odds')
+  }
+  return createTheOddsApiProvider(apiKey)
+}
@@ -0,0 +1,107 @@
+/**
+ * Outright (futures) markets: fair probabilities and a season-level Monte
+ * Carlo simulation used to resolve outright bets in Sim mode
+ *
+ * The simulation API only knows single matches, so outrights are resolved in
+ * the browser. Each trial draws a full final table for every competition on
+ * the slip, then settles the selections against the winner.
+ */
+
+import { Outright } from '../types'
+import { MarginMethod, removeMargin } from './margin'
+
+export interface OutrightSelection {
+  outrightId: string
+  participant: string
+  odds: number
+}
+
+export interface SeasonSimulation {
+  seed: number
+  /** Final standings per outright id, winner first */
+  standings: Record<string, string[]>
+  /** Whether each selection won, in slip order */
+  won: boolean[]
+  slipWon: boolean
+  payout: number
+}
+
+/**
+ * Fair win probability per participant, with the margin removed across the
+ * whole field
+ */
+export function outrightProbabilities(outright: Outright, marginMethod: MarginMethod = 'proportional'): Record<string, number> {
+  const fair = removeMargin(outright.participants.map(p => p.odds), marginMethod)
+  return Object.fromEntries(outright.participants.map((p, idx) => [p.name, fair[idx]]))
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) from a seed (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Simulate one season's final standings
+ *
+ * Places are drawn one at a time without replacement, weighted by win
+ * probability (Plackett-Luce), so each participant finishes first with
+ * exactly its fair probability and stronger sides tend to finish higher.
+ */
+export function simulateStandings(probabilities: Record<string, number>, random: () => number): string[] {
+  const remaining = Object.entries(probabilities)
+  const standings: string[] = []
+
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, [, p]) => sum + p, 0)
+    let draw = random() * total
+    let idx = remaining.findIndex(([, p]) => (draw -= p) < 0)
+    if (idx === -1) idx = remaining.length - 1
+    standings.push(remaining[idx][0])
+    remaining.splice(idx, 1)
+  }
+
+  return standings
+}
+
+/**
+ * Simulate one season for every competition on an outright slip and settle
+ * it as an accumulator
+ */
+export function simulateOutrightSlip(
+  outrights: Outright[],
+  selections: OutrightSelection[],
+  stake: number,
+  seed: number,
+  marginMethod: MarginMethod = 'proportional'
+): SeasonSimulation {
+  const random = seededRandom(seed)
+  const standings: Record<string, string[]> = {}
+
+  selections.forEach(selection => {
+    if (standings[selection.outrightId]) return
+    const outright = outrights.find(o => o.id === selection.outrightId)
+    if (!outright) throw new Error(`Unknown outright: ${selection.outrightId}`)
+    standings[outright.id] = simulateStandings(outrightProbabilities(outright, marginMethod), random)
+  })
+
+  const won = selections.map(selection => standings[selection.outrightId][0] === selection.participant)
+  const slipWon = won.every(Boolean)
+  const totalOdds = selections.reduce((acc, selection) => acc * selection.odds, 1)
+
+  return {
+    seed,
+    standings,
+    won,
+    slipWon,
+    payout: slipWon ? stake * totalOdds : 0
+  }
+}
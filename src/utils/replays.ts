@@ -0,0 +1,179 @@
+/**
+ * Seeded simulation replays
+ *
+ * Every match trial keeps the exact request it was run with (score
+ * probabilities, bet slip and seed) and the engine that ran it. Replaying
+ * sends the same request to the same engine and checks that the scores, bet
+ * results and payout come out the same.
+ *
+ * Trials are stored by batch: the trials of a batch differ only in seed
+ * (singles batches have one request per selection), so each distinct request
+ * is kept once and every trial keeps its seed, engine and outcome.
+ */
+
+import { SimulationEngineKind, SimulationPath, SimulationRequest, SimulationResponse } from './simulationEngine'
+
+export interface ReplayOutcome {
+  /** Final score of each match, e.g. "2-1" */
+  scores: string[]
+  betsWon: boolean[]
+  payout: number
+}
+
+export interface SimulationReplay<P extends SimulationPath = SimulationPath> {
+  /** Unique per batch and trial */
+  id: string
+  userId: string
+  seed: number
+  engine: SimulationEngineKind
+  path: P
+  request: SimulationRequest<P>
+  outcome: ReplayOutcome
+  createdAt: string
+}
+
+/** A trial as stored with its batch */
+export interface StoredReplayTrial {
+  id: string
+  seed: number
+  engine: SimulationEngineKind
+  /** Index of the trial's request in the batch's `requests` */
+  request: number
+  outcome: ReplayOutcome
+}
+
+export interface ReplayBatch {
+  id: string
+  userId: string
+  createdAt: string
+  /** Distinct requests of the batch, stored with seed 0; each trial has its own */
+  requests: Array<{ path: SimulationPath, request: SimulationRequest<SimulationPath> }>
+  trials: StoredReplayTrial[]
+}
+
+/** Batches of replays kept per user; saving another removes the oldest */
+export const MAX_REPLAY_BATCHES = 20
+
+/**
+ * The stored form of a batch's replays
+ */
+export function toReplayBatch(id: string, userId: string, replays: SimulationReplay[], createdAt: string = new Date().toISOString()): ReplayBatch {
+  const requestIndexes = new Map<string, number>()
+  const requests: ReplayBatch['requests'] = []
+  const trials = replays.map(replay => {
+    const request = { ...replay.request, seed: 0 }
+    const key = `${replay.path} ${JSON.stringify(request)}`
+    let index = requestIndexes.get(key)
+    if (index === undefined) {
+      index = requests.length
+      requestIndexes.set(key, index)
+      requests.push({ path: replay.path, request })
+    }
+    return { id: replay.id, seed: replay.seed, engine: replay.engine, request: index, outcome: replay.outcome }
+  })
+  return { id, userId, createdAt, requests, trials }
+}
+
+/**
+ * The replays of a stored batch, each with its full request
+ */
+export function getBatchReplays(batch: ReplayBatch): SimulationReplay[] {
+  return batch.trials.map(trial => {
+    const { path, request } = batch.requests[trial.request]
+    return {
+      id: trial.id,
+      userId: batch.userId,
+      seed: trial.seed,
+      engine: trial.engine,
+      path,
+      request: { ...request, seed: trial.seed },
+      outcome: trial.outcome,
+      createdAt: batch.createdAt
+    }
+  })
+}
+
+/**
+ * The parts of a trial's response a replay must reproduce
+ */
+export function getReplayOutcome<P extends SimulationPath>(path: P, response: SimulationResponse<P>): ReplayOutcome {
+  if (path === '/api/simulate-multi') {
+    const multi = response as SimulationResponse<'/api/simulate-multi'>
+    return {
+      scores: multi.matches.map(match => `${match.home_score}-${match.away_score}`),
+      betsWon: multi.bet_results.map(bet => bet.won),
+      payout: multi.actual_payout
+    }
+  }
+  const single = response as SimulationResponse<'/api/simulate'>
+  return {
+    scores: [`${single.final_score[single.home_team] ?? 0}-${single.final_score[single.away_team] ?? 0}`],
+    betsWon: single.bet_results.map(bet => bet.won),
+    payout: single.total_payout
+  }
+}
+
+/** What a simulation API history entry records about the slip it ran */
+export interface RecordedSlip {
+  seed: number
+  home_team: string
+  away_team: string
+  total_stake: number
+  bet_results: Array<{ market: string, outcome: string }>
+}
+
+/**
+ * Whether a replay is of the trial a history entry recorded: an API trial
+ * with the same seed, match, markets, outcomes and stake
+ */
+export function isReplayOfSlip(replay: SimulationReplay, slip: RecordedSlip): boolean {
+  if (replay.engine !== 'remote' || replay.seed !== slip.seed) return false
+
+  let hasMatch: boolean
+  let stake: number
+  let bets: Array<{ market: string, outcome: string }>
+  if (replay.path === '/api/simulate-multi') {
+    const request = replay.request as SimulationRequest<'/api/simulate-multi'>
+    hasMatch = request.matches.some(match => match.home_team === slip.home_team && match.away_team === slip.away_team)
+    stake = request.stake
+    bets = request.bet_slip
+  } else {
+    const request = replay.request as SimulationRequest<'/api/simulate'>
+    hasMatch = request.home_team === slip.home_team && request.away_team === slip.away_team
+    stake = request.bet_slip.reduce((sum, bet) => sum + (bet.stake || 0), 0)
+    bets = request.bet_slip
+  }
+
+  return hasMatch &&
+    Math.abs(stake - slip.total_stake) < 0.005 &&
+    bets.length === slip.bet_results.length &&
+    bets.every((bet, idx) => bet.market === slip.bet_results[idx].market && bet.outcome === slip.bet_results[idx].outcome)
+}
+
+/**
+ * How a replay differs from the original; empty when it matches
+ */
+export function compareReplayOutcomes(original: ReplayOutcome, replayed: ReplayOutcome): string[] {
+  const differences: string[] = []
+  if (original.scores.join(', ') !== replayed.scores.join(', ')) {
+    differences.push(`Scores: ${original.scores.join(', ')} originally, ${replayed.scores.join(', ')} on replay`)
+  }
+  original.betsWon.forEach((won, idx) => {
+    if (replayed.betsWon[idx] !== won) differences.push(`Bet ${idx + 1}: ${won ? 'won' : 'lost'} originally, ${replayed.betsWon[idx] ? 'won' : 'lost'} on replay`)
+  })
+  if (Math.abs(original.payout - replayed.payout) > 0.005) {
+    differences.push(`Payout: ${original.payout.toFixed(2)} originally, ${replayed.payout.toFixed(2)} on replay`)
+  }
+  return differences
+}
+
+/** First seed of a batch when fixed-seed mode is turned on */
+export const DEFAULT_FIXED_SEED = 42
+
+/**
+ * Seed for a trial: fixed-seed mode starts every batch from the same seed,
+ * so the same slip always gives the same results
+ */
+export function getTrialSeed(fixedSeed: number | null, index: number, now: number = Date.now()): number {
+  return (fixedSeed ?? now) + index
+}
@@ -0,0 +1,222 @@
+/**
+ * Responsible-gambling controls: deposit, loss and stake limits, session
+ * reminders, cooling-off and self-exclusion
+ *
+ * Limits are checked against the user's ledger for the current day, week
+ * (from Monday) or calendar month. A tighter limit applies at once; a looser
+ * one (or removing a limit) only takes effect after LIMIT_LOOSEN_DELAY, so it
+ * can't be raised in the heat of the moment. Cooling-off and self-exclusion
+ * block betting, simulations and deposits until they end and can't be
+ * shortened.
+ */
+
+import { LedgerEntry } from './betLedger'
+
+export type LimitKind = 'deposit' | 'loss' | 'stake'
+export type LimitPeriod = 'daily' | 'weekly' | 'monthly'
+
+export type GamblingLimits = Record<LimitKind, Partial<Record<LimitPeriod, number>>>
+
+export interface PendingLimitChange {
+  kind: LimitKind
+  period: LimitPeriod
+  /** New limit; undefined removes it */
+  amount?: number
+  effectiveAt: number
+}
+
+export interface ResponsibleGamblingSettings {
+  limits: GamblingLimits
+  pendingChanges: PendingLimitChange[]
+  /** Minutes between reality-check reminders; 0 turns them off */
+  sessionReminderMinutes: number
+  /** End of a cooling-off or self-exclusion period */
+  blockedUntil?: number
+  blockReason?: 'cooling_off' | 'self_exclusion'
+}
+
+export const LIMIT_KINDS: Array<{ value: LimitKind, label: string }> = [
+  { value: 'deposit', label: 'Deposit' },
+  { value: 'loss', label: 'Loss' },
+  { value: 'stake', label: 'Stake' }
+]
+
+export const LIMIT_PERIODS: Array<{ value: LimitPeriod, label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const LIMIT_LOOSEN_DELAY = DAY_MS
+
+export const COOLING_OFF_PERIODS: Array<{ label: string, duration: number }> = [
+  { label: '24 hours', duration: DAY_MS },
+  { label: '7 days', duration: 7 * DAY_MS },
+  { label: '30 days', duration: 30 * DAY_MS }
+]
+
+export const SELF_EXCLUSION_PERIODS: Array<{ label: string, duration: number }> = [
+  { label: '6 months', duration: 182 * DAY_MS },
+  { label: '1 year', duration: 365 * DAY_MS },
+  { label: '5 years', duration: 5 * 365 * DAY_MS }
+]
+
+export const SESSION_REMINDER_OPTIONS = [0, 15, 30, 60, 120]
+
+export const DEFAULT_RESPONSIBLE_GAMBLING_SETTINGS: ResponsibleGamblingSettings = {
+  limits: { deposit: {}, loss: {}, stake: {} },
+  pendingChanges: [],
+  sessionReminderMinutes: 60
+}
+
+const settingsKey = (userId: string) => `responsible_gambling_${userId}`
+
+export function loadResponsibleGamblingSettings(userId: string): ResponsibleGamblingSettings {
+  try {
+    return { ...DEFAULT_RESPONSIBLE_GAMBLING_SETTINGS, ...JSON.parse(localStorage.getItem(settingsKey(userId)) || '{}') }
+  } catch {
+    return DEFAULT_RESPONSIBLE_GAMBLING_SETTINGS
+  }
+}
+
+export function saveResponsibleGamblingSettings(userId: string, settings: ResponsibleGamblingSettings) {
+  localStorage.setItem(settingsKey(userId), JSON.stringify(settings))
+}
+
+/**
+ * Change a limit: tightening applies now and cancels any pending loosening,
+ * loosening waits LIMIT_LOOSEN_DELAY
+ */
+export function requestLimitChange(
+  settings: ResponsibleGamblingSettings,
+  kind: LimitKind,
+  period: LimitPeriod,
+  amount: number | undefined,
+  now: number = Date.now()
+): ResponsibleGamblingSettings {
+  const current = settings.limits[kind][period]
+  const pendingChanges = settings.pendingChanges.filter(change => change.kind !== kind || change.period !== period)
+  const isTighter = amount !== undefined && (current === undefined || amount < current)
+
+  if (isTighter) {
+    return {
+      ...settings,
+      limits: { ...settings.limits, [kind]: { ...settings.limits[kind], [period]: amount } },
+      pendingChanges
+    }
+  }
+  if (amount === current) return { ...settings, pendingChanges }
+  return { ...settings, pendingChanges: [...pendingChanges, { kind, period, amount, effectiveAt: now + LIMIT_LOOSEN_DELAY }] }
+}
+
+/**
+ * Apply the pending changes whose delay has passed; returns the same object
+ * when there are none
+ */
+export function applyDueLimitChanges(settings: ResponsibleGamblingSettings, now: number = Date.now()): ResponsibleGamblingSettings {
+  const due = settings.pendingChanges.filter(change => change.effectiveAt <= now)
+  if (due.length === 0) return settings
+
+  const limits: GamblingLimits = {
+    deposit: { ...settings.limits.deposit },
+    loss: { ...settings.limits.loss },
+    stake: { ...settings.limits.stake }
+  }
+  due.forEach(change => {
+    if (change.amount === undefined) delete limits[change.kind][change.period]
+    else limits[change.kind][change.period] = change.amount
+  })
+  return { ...settings, limits, pendingChanges: settings.pendingChanges.filter(change => change.effectiveAt > now) }
+}
+
+/**
+ * Start a cooling-off or self-exclusion period; an existing block is only
+ * ever extended
+ */
+export function startBlock(
+  settings: ResponsibleGamblingSettings,
+  reason: 'cooling_off' | 'self_exclusion',
+  duration: number,
+  now: number = Date.now()
+): ResponsibleGamblingSettings {
+  const blockedUntil = Math.max(settings.blockedUntil || 0, now + duration)
+  return { ...settings, blockedUntil, blockReason: blockedUntil === settings.blockedUntil ? settings.blockReason : reason }
+}
+
+export function isBlocked(settings: ResponsibleGamblingSettings, now: number = Date.now()): boolean {
+  return settings.blockedUntil !== undefined && settings.blockedUntil > now
+}
+
+/**
+ * Start of the current day, week (Monday) or calendar month, local time
+ */
+export function getPeriodStart(period: LimitPeriod, now: number = Date.now()): number {
+  const date = new Date(now)
+  date.setHours(0, 0, 0, 0)
+  if (period === 'weekly') date.setDate(date.getDate() - (date.getDay() + 6) % 7)
+  if (period === 'monthly') date.setDate(1)
+  return date.getTime()
+}
+
+const BETTING_TYPES: LedgerEntry['type'][] = ['stake', 'return', 'cash_out', 'simulation']
+
+/**
+ * How much of a limit has been used in the current period: deposits made,
+ * money staked (including simulations), or net losses on bets
+ */
+export function getLimitUsage(entries: LedgerEntry[], kind: LimitKind, period: LimitPeriod, now: number = Date.now()): number {
+  const from = getPeriodStart(period, now)
+  const inPeriod = entries.filter(entry => Date.parse(entry.createdAt) >= from)
+
+  if (kind === 'deposit') {
+    return inPeriod.reduce((sum, entry) => entry.type === 'deposit' ? sum + entry.amount : sum, 0)
+  }
+  if (kind === 'stake') {
+    return inPeriod.reduce((sum, entry) => {
+      if (entry.type === 'stake') return sum - entry.amount
+      if (entry.type === 'simulation') return sum + (entry.staked || 0)
+      return sum
+    }, 0)
+  }
+  const net = inPeriod.reduce((sum, entry) => BETTING_TYPES.includes(entry.type) ? sum + entry.amount : sum, 0)
+  return Math.max(0, -net)
+}
+
+/**
+ * Why an action can't go ahead, or null when it can. A bet counts its full
+ * stake against both stake and loss limits, as it could all be lost.
+ */
+export function getLimitViolation(
+  settings: ResponsibleGamblingSettings,
+  entries: LedgerEntry[],
+  action: { stake?: number, deposit?: number },
+  now: number = Date.now()
+): string | null {
+  if (isBlocked(settings, now)) {
+    const until = new Date(settings.blockedUntil!).toLocaleString()
+    return settings.blockReason === 'self_exclusion'
+      ? `You are self-excluded until ${until}.`
+      : `You are on a cooling-off break until ${until}.`
+  }
+
+  const checks: Array<{ kind: LimitKind, amount?: number }> = [
+    { kind: 'deposit', amount: action.deposit },
+    { kind: 'stake', amount: action.stake },
+    { kind: 'loss', amount: action.stake }
+  ]
+  for (const { kind, amount } of checks) {
+    if (!amount) continue
+    for (const { value: period, label } of LIMIT_PERIODS) {
+      const limit = settings.limits[kind][period]
+      if (limit === undefined) continue
+      const remaining = limit - getLimitUsage(entries, kind, period, now)
+      if (amount > remaining) {
+        const kindLabel = LIMIT_KINDS.find(k => k.value === kind)!.label.toLowerCase()
+        return `This would exceed your ${label.toLowerCase()} ${kindLabel} limit (${Math.max(0, remaining).toFixed(2)} left of ${limit.toFixed(2)}).`
+      }
+    }
+  }
+  return null
+}
@@ -0,0 +1,141 @@
+/**
+ * Same-game multis: several selections on one match priced as a single leg
+ *
+ * Selections on the same match are correlated (a home win and Over 2.5 tend to
+ * land together), so multiplying their odds misprices the combination. The
+ * joint probability is read off the match's final-score distribution instead,
+ * and the product of the quoted prices is scaled by how much more (or less)
+ * likely the selections are together than apart. Combinations that no final
+ * score satisfies are contradictory and rejected with an explanation.
+ */
+
+import { BetMarket } from '../types'
+import { ScoreProbability } from './oddsConverter'
+
+export interface SameGameLeg {
+  market: BetMarket
+  side: string
+  point?: number
+  odds: number
+  /** Display text, used in explanations */
+  selection: string
+}
+
+export type SameGameMultiPrice =
+  | { valid: true, odds: number, probability: number, correlation: number }
+  | { valid: false, reason: string }
+
+type ScorePredicate = (home: number, away: number) => boolean
+
+function isHalfLine(point: number): boolean {
+  return Math.abs(point % 1) === 0.5
+}
+
+/**
+ * Final scores a selection wins on
+ *
+ * Returns undefined for selections that can be void or half-settled on some
+ * scores (draw no bet, whole and quarter handicap or totals lines): their
+ * result isn't a plain win or loss, so they can't be priced into a combination.
+ */
+export function legPredicate(leg: Pick<SameGameLeg, 'market' | 'side' | 'point'>): ScorePredicate | undefined {
+  const { market, side, point } = leg
+
+  switch (market) {
+    case 'h2h':
+      if (side === 'home') return (home, away) => home > away
+      if (side === 'away') return (home, away) => away > home
+      return (home, away) => home === away
+    case 'spreads':
+      // point is the home line
+      if (point === undefined || !isHalfLine(point)) return undefined
+      return side === 'home'
+        ? (home, away) => home - away + point > 0
+        : (home, away) => home - away + point < 0
+    case 'totals':
+      if (point === undefined || !isHalfLine(point)) return undefined
+      return side === 'over'
+        ? (home, away) => home + away > point
+        : (home, away) => home + away < point
+    case 'btts':
+      return side === 'yes'
+        ? (home, away) => home > 0 && away > 0
+        : (home, away) => home === 0 || away === 0
+    case 'correct_score':
+      return (home, away) => `${home}-${away}` === side
+    case 'double_chance':
+      if (side === '1X') return (home, away) => home >= away
+      if (side === 'X2') return (home, away) => away >= home
+      return (home, away) => home !== away
+    case 'winning_margin': {
+      if (side === 'draw') return (home, away) => home === away
+      const [team, margin] = side.split('_')
+      const goals = parseInt(margin)
+      const isCapped = margin.endsWith('+')
+      return (home, away) => {
+        const diff = team === 'home' ? home - away : away - home
+        return isCapped ? diff >= goals : diff === goals
+      }
+    }
+    case 'odd_even':
+      return side === 'odd'
+        ? (home, away) => (home + away) % 2 === 1
+        : (home, away) => (home + away) % 2 === 0
+    default:
+      return undefined
+  }
+}
+
+function probabilityOf(scores: ScoreProbability[], predicates: ScorePredicate[]): number {
+  return scores.reduce((sum, score) => (
+    predicates.every(wins => wins(score.home_score, score.away_score)) ? sum + score.probability : sum
+  ), 0)
+}
+
+/**
+ * Price several selections on one match from its final-score distribution
+ *
+ * The combined price is the product of the selections' odds divided by
+ * P(all win) / ∏ P(each wins), so the bookmakers' margins are kept and
+ * independent selections price exactly as an accumulator would.
+ */
+export function priceSameGameMulti(legs: SameGameLeg[], scores: ScoreProbability[]): SameGameMultiPrice {
+  const predicates: ScorePredicate[] = []
+  for (const leg of legs) {
+    const predicate = legPredicate(leg)
+    if (!predicate) {
+      return { valid: false, reason: `"${leg.selection}" can be void or half-settled, so it can't be combined with other selections on the same match.` }
+    }
+    predicates.push(predicate)
+  }
+
+  const legProbabilities = predicates.map(predicate => probabilityOf(scores, [predicate]))
+  const impossibleLeg = legProbabilities.findIndex(p => p <= 0)
+  if (impossibleLeg !== -1) {
+    return { valid: false, reason: `"${legs[impossibleLeg].selection}" can't win under the match model, so it can't be part of a same-game multi.` }
+  }
+
+  const probability = probabilityOf(scores, predicates)
+  if (probability <= 0) {
+    // Name the first pair that can't both win, when there is one
+    for (let i = 0; i < legs.length; i++) {
+      for (let j = i + 1; j < legs.length; j++) {
+        if (probabilityOf(scores, [predicates[i], predicates[j]]) <= 0) {
+          return { valid: false, reason: `"${legs[i].selection}" and "${legs[j].selection}" can't both win.` }
+        }
+      }
+    }
+    return { valid: false, reason: `No final score wins all of ${legs.map(leg => `"${leg.selection}"`).join(', ')}.` }
+  }
+
+  // Above 1 when the selections tend to win together, below 1 when they pull apart
+  const correlation = probability / legProbabilities.reduce((acc, p) => acc * p, 1)
+  const quotedOdds = legs.reduce((acc, leg) => acc * leg.odds, 1)
+
+  return {
+    valid: true,
+    odds: Math.max(1.01, Math.round(quotedOdds / correlation * 100) / 100),
+    probability,
+    correlation
+  }
+}
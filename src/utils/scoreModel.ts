@@ -0,0 +1,235 @@
+/**
+ * Bivariate Poisson score model with a Dixon-Coles low-score correction
+ *
+ * Home and away expected goals are fitted to de-margined 1X2 (and optionally
+ * totals) probabilities, then expanded into a full score matrix.
+ */
+
+export interface ScoreModelOptions {
+  /** Highest goal count per team included in the matrix */
+  maxGoals: number
+  /** Dixon-Coles dependence parameter for 0-0, 1-0, 0-1 and 1-1 */
+  rho: number
+  /** Bivariate Poisson covariance term (lambda3), 0 for independent scoring */
+  covariance: number
+}
+
+export const DEFAULT_SCORE_MODEL_OPTIONS: ScoreModelOptions = {
+  maxGoals: 10,
+  rho: -0.05,
+  covariance: 0
+}
+
+export interface ExpectedGoals {
+  home: number
+  away: number
+}
+
+/** matrix[home][away] = probability of that exact score */
+export type ScoreMatrix = number[][]
+
+export interface OutcomeTargets {
+  home: number
+  draw: number
+  away: number
+}
+
+export interface TotalsTarget {
+  point: number
+  /** De-margined probability of the over, with pushes excluded */
+  over: number
+}
+
+function factorial(n: number): number {
+  let result = 1
+  for (let i = 2; i <= n; i++) result *= i
+  return result
+}
+
+function binomial(n: number, k: number): number {
+  return factorial(n) / (factorial(k) * factorial(n - k))
+}
+
+/**
+ * Bivariate Poisson probability of a home/away score
+ */
+function bivariatePoisson(x: number, y: number, lambda1: number, lambda2: number, lambda3: number): number {
+  const base = Math.exp(-(lambda1 + lambda2 + lambda3)) *
+    Math.pow(lambda1, x) / factorial(x) *
+    Math.pow(lambda2, y) / factorial(y)
+
+  if (lambda3 === 0) return base
+
+  let sum = 0
+  for (let k = 0; k <= Math.min(x, y); k++) {
+    sum += binomial(x, k) * binomial(y, k) * factorial(k) * Math.pow(lambda3 / (lambda1 * lambda2), k)
+  }
+  return base * sum
+}
+
+/**
+ * Dixon-Coles adjustment factor for low scores
+ */
+function dixonColesTau(x: number, y: number, home: number, away: number, rho: number): number {
+  if (x === 0 && y === 0) return 1 - home * away * rho
+  if (x === 0 && y === 1) return 1 + home * rho
+  if (x === 1 && y === 0) return 1 + away * rho
+  if (x === 1 && y === 1) return 1 - rho
+  return 1
+}
+
+/**
+ * Build a normalised score matrix from expected goals
+ */
+export function buildScoreMatrix(
+  expectedGoals: ExpectedGoals,
+  options: Partial<ScoreModelOptions> = {}
+): ScoreMatrix {
+  const { maxGoals, rho, covariance } = { ...DEFAULT_SCORE_MODEL_OPTIONS, ...options }
+
+  // lambda3 is shared by both sides, so each side's own rate is what remains
+  const lambda3 = Math.min(covariance, expectedGoals.home * 0.99, expectedGoals.away * 0.99)
+  const lambda1 = expectedGoals.home - lambda3
+  const lambda2 = expectedGoals.away - lambda3
+
+  const matrix: ScoreMatrix = []
+  let total = 0
+
+  for (let x = 0; x <= maxGoals; x++) {
+    matrix.push([])
+    for (let y = 0; y <= maxGoals; y++) {
+      const p = bivariatePoisson(x, y, lambda1, lambda2, lambda3) *
+        dixonColesTau(x, y, expectedGoals.home, expectedGoals.away, rho)
+      const probability = Math.max(p, 0)
+      matrix[x].push(probability)
+      total += probability
+    }
+  }
+
+  return matrix.map(row => row.map(p => p / total))
+}
+
+/**
+ * Home win, draw and away win probabilities of a score matrix
+ */
+export function matrixOutcomes(matrix: ScoreMatrix): OutcomeTargets {
+  let home = 0
+  let draw = 0
+  let away = 0
+
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    if (x > y) home += p
+    else if (x === y) draw += p
+    else away += p
+  }))
+
+  return { home, draw, away }
+}
+
+/**
+ * Total probability of the scores matching a predicate
+ */
+export function matrixProbability(matrix: ScoreMatrix, predicate: (home: number, away: number) => boolean): number {
+  let total = 0
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    if (predicate(x, y)) total += p
+  }))
+  return total
+}
+
+/**
+ * Probability of going over a totals line, with pushes excluded
+ */
+export function matrixOverProbability(matrix: ScoreMatrix, point: number): number {
+  let over = 0
+  let under = 0
+
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    if (x + y > point) over += p
+    else if (x + y < point) under += p
+  }))
+
+  return over + under > 0 ? over / (over + under) : 0
+}
+
+/**
+ * Minimise a function of two variables with the Nelder-Mead simplex method
+ */
+function nelderMead(fn: (x: number[]) => number, start: number[], maxIterations = 200, tolerance = 1e-10): number[] {
+  let simplex = [
+    start,
+    [start[0] + 0.2, start[1]],
+    [start[0], start[1] + 0.2]
+  ].map(point => ({ point, value: fn(point) }))
+
+  for (let i = 0; i < maxIterations; i++) {
+    simplex.sort((a, b) => a.value - b.value)
+    const [best, second, worst] = simplex
+
+    if (Math.abs(worst.value - best.value) < tolerance) break
+
+    const centroid = [(best.point[0] + second.point[0]) / 2, (best.point[1] + second.point[1]) / 2]
+    const towards = (coefficient: number) => [
+      centroid[0] + coefficient * (worst.point[0] - centroid[0]),
+      centroid[1] + coefficient * (worst.point[1] - centroid[1])
+    ]
+
+    const reflected = towards(-1)
+    const reflectedValue = fn(reflected)
+
+    if (reflectedValue < best.value) {
+      const expanded = towards(-2)
+      const expandedValue = fn(expanded)
+      simplex[2] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue }
+    } else if (reflectedValue < second.value) {
+      simplex[2] = { point: reflected, value: reflectedValue }
+    } else {
+      const contracted = towards(0.5)
+      const contractedValue = fn(contracted)
+      if (contractedValue < worst.value) {
+        simplex[2] = { point: contracted, value: contractedValue }
+      } else {
+        simplex = simplex.map(vertex => {
+          const point = [
+            best.point[0] + 0.5 * (vertex.point[0] - best.point[0]),
+            best.point[1] + 0.5 * (vertex.point[1] - best.point[1])
+          ]
+          return { point, value: fn(point) }
+        })
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value)
+  return simplex[0].point
+}
+
+/**
+ * Fit home/away expected goals to de-margined 1X2 and totals probabilities
+ */
+export function fitExpectedGoals(
+  outcomes: OutcomeTargets,
+  totals?: TotalsTarget,
+  options: Partial<ScoreModelOptions> = {}
+): ExpectedGoals {
+  // Fit in log space so expected goals stay positive
+  const error = ([logHome, logAway]: number[]) => {
+    const matrix = buildScoreMatrix({ home: Math.exp(logHome), away: Math.exp(logAway) }, options)
+    const model = matrixOutcomes(matrix)
+
+    // Two-way prices (no draw) only pin down the home/away split
+    let sum = outcomes.draw > 0
+      ? (model.home - outcomes.home) ** 2 + (model.draw - outcomes.draw) ** 2 + (model.away - outcomes.away) ** 2
+      : (model.home / (model.home + model.away) - outcomes.home) ** 2
+
+    if (totals) {
+      sum += (matrixOverProbability(matrix, totals.point) - totals.over) ** 2
+    }
+    return sum
+  }
+
+  const [logHome, logAway] = nelderMead(error, [Math.log(1.4), Math.log(1.1)])
+  return { home: Math.exp(logHome), away: Math.exp(logAway) }
+}
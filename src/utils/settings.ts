@@ -0,0 +1,81 @@
+/**
+ * User-adjustable settings, persisted in localStorage
+ */
+
+import { MarginMethod } from './margin'
+import { clampMarketMargin, DEFAULT_MARKET_MARGINS, MarketMargins } from './marketGenerator'
+import { PriceSource } from './consensus'
+import { BASE_ODDS_MARKETS, OddsRegion, OddsRequest } from './oddsProvider'
+import { OddsChangePolicy } from './oddsChanges'
+import { SimulationEngineKind } from './simulationEngine'
+
+export interface AppSettings {
+  /** Margin-removal method used for every price-to-probability conversion */
+  marginMethod: MarginMethod
+  /** Bookmaker margin added to each market generated from the score model */
+  marketMargins: MarketMargins
+  /** Which prices the score model and simulator inputs are built from */
+  simulationPrices: PriceSource
+  oddsRegions: OddsRegion[]
+  /** Odds API markets requested on top of h2h, spreads and totals */
+  extraOddsMarkets: string[]
+  /** Bookmaker keys to show; empty shows every bookmaker */
+  bookmakerAllowList: string[]
+  /** Which bet slip price changes are taken without asking */
+  oddsChangePolicy: OddsChangePolicy
+  /** Where Sim-mode trials run */
+  simulationEngine: SimulationEngineKind
+  /** First seed of every batch, so the same slip gives the same results; null seeds from the clock */
+  fixedSeed: number | null
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  marginMethod: 'proportional',
+  marketMargins: DEFAULT_MARKET_MARGINS,
+  simulationPrices: 'best',
+  oddsRegions: ['uk'],
+  extraOddsMarkets: [],
+  bookmakerAllowList: [],
+  oddsChangePolicy: 'ask',
+  simulationEngine: 'remote',
+  fixedSeed: null
+}
+
+const SETTINGS_KEY = 'settings'
+
+/**
+ * Stored margins merged over the defaults, so markets added since they were
+ * saved get their default margin
+ */
+function loadMarketMargins(stored: Partial<MarketMargins> = {}): MarketMargins {
+  const margins = { ...DEFAULT_MARKET_MARGINS }
+  for (const key of Object.keys(margins) as Array<keyof MarketMargins>) {
+    const margin = stored[key]
+    if (typeof margin === 'number' && Number.isFinite(margin)) margins[key] = clampMarketMargin(margin)
+  }
+  return margins
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const stored: Partial<AppSettings> = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}')
+    return { ...DEFAULT_SETTINGS, ...stored, marketMargins: loadMarketMargins(stored.marketMargins) }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+/**
+ * The odds request described by the settings
+ */
+export function toOddsRequest(settings: AppSettings): OddsRequest {
+  return {
+    regions: settings.oddsRegions,
+    markets: [...BASE_ODDS_MARKETS, ...settings.extraOddsMarkets],
+    bookmakers: settings.bookmakerAllowList
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Settle Real-mode bets from final scores
+ *
+ * Every match market the bet slip offers is resolved from the final score.
+ * Outright selections can't be, so bets containing them are left for manual
+ * settlement. Matches the feed reschedules well past the kick-off they were
+ * bet on are postponed and void: their selections return the stake, and a
+ * line that contains them is paid on its remaining selections. Matches with
+ * no result long after kick-off (dropped from the feed, or completed without
+ * scores) are held for review rather than voided.
+ */
+
+import { BetLine, BetMarket, MatchScore } from '../types'
+import { HandicapSettlement, settleAsianHandicap } from './asianHandicap'
+import { legPredicate } from './sameGameMulti'
+
+/** A match rescheduled this far past the kick-off it was bet on is postponed, and void */
+export const POSTPONED_AFTER_MS = 36 * 60 * 60 * 1000
+
+/** A match with no result this long after kick-off is held for review */
+export const REVIEW_AFTER_MS = 36 * 60 * 60 * 1000
+
+/** No supported sport finishes a match sooner than this after kick-off */
+export const MIN_MATCH_DURATION_MS = 60 * 60 * 1000
+
+/** How many days back the scores feed is asked for completed matches */
+export const SCORES_DAYS_FROM = 3
+
+export interface ScoresRequest {
+  leagueKey: string
+  daysFrom?: number
+}
+
+export interface SettleableSelection {
+  matchId: string
+  market: BetMarket
+  side: string
+  point?: number
+  odds: number
+  /** ISO kick-off time the bet was placed on, for spotting postponements and missing results */
+  commenceTime?: string
+}
+
+export interface SettleableBet {
+  selections: SettleableSelection[]
+  stake: number
+  /** Price per match (same-game multis price their legs together) */
+  unitOdds: Record<string, number>
+  systemBet?: {
+    lines: BetLine[]
+    stakePerLine: number
+  }
+}
+
+export interface BetSettlement {
+  payout: number
+  /** Return per unit staked for each match */
+  unitReturns: Record<string, number>
+}
+
+const VOID: HandicapSettlement = { outcome: 'push', returnPerUnit: 1 }
+
+export type MatchStatus = 'completed' | 'void' | 'review' | 'pending'
+
+/**
+ * Whether a match has finished, is void, needs review or is still to be decided
+ *
+ * The feed has no postponement status, so a match is only void once the feed
+ * moves its kick-off `POSTPONED_AFTER_MS` past `commenceTime`, the kick-off
+ * stored on the selection. One with no result `REVIEW_AFTER_MS` after kick-off
+ * (missing from the feed, which only keeps completed matches for 3 days, or
+ * completed without scores) is held for review, so a bet is never refunded
+ * just because its result wasn't seen. Without either kick-off time it stays
+ * pending.
+ */
+export function getMatchStatus(score: MatchScore | undefined, commenceTime: string | undefined, now: number = Date.now()): MatchStatus {
+  const hasScores = score?.homeScore !== undefined && score?.awayScore !== undefined
+  if (score?.completed && hasScores) return 'completed'
+  if (score && commenceTime && Date.parse(score.commenceTime) - Date.parse(commenceTime) > POSTPONED_AFTER_MS) return 'void'
+  const kickOff = score?.commenceTime ?? commenceTime
+  if (kickOff && now - Date.parse(kickOff) > REVIEW_AFTER_MS) return 'review'
+  return 'pending'
+}
+
+/**
+ * The scores feeds a results check needs: only leagues with a match that has
+ * kicked off, and completed matches (`daysFrom`, at twice the quota cost)
+ * only once one of them may be over. Selections placed without a kick-off
+ * time are treated as possibly over.
+ */
+export function getScoresRequests(
+  selections: Array<{ market: BetMarket, sportKey?: string, commenceTime?: string }>,
+  now: number = Date.now()
+): ScoresRequest[] {
+  const needsCompleted = new Map<string, boolean>()
+  selections.forEach(sel => {
+    if (sel.market === 'outright' || !sel.sportKey) return
+    const elapsed = sel.commenceTime ? now - Date.parse(sel.commenceTime) : Infinity
+    if (elapsed < 0) return
+    needsCompleted.set(sel.sportKey, (needsCompleted.get(sel.sportKey) ?? false) || elapsed >= MIN_MATCH_DURATION_MS)
+  })
+  return [...needsCompleted].map(([leagueKey, completed]) => completed ? { leagueKey, daysFrom: SCORES_DAYS_FROM } : { leagueKey })
+}
+
+/**
+ * Settle one selection from the final score
+ */
+export function settleSelection(selection: SettleableSelection, homeScore: number, awayScore: number): HandicapSettlement {
+  const { market, side, point, odds } = selection
+
+  if (market === 'spreads' && point !== undefined) {
+    // point is the home line; the away side takes the opposite handicap
+    const goalDifference = side === 'home' ? homeScore - awayScore : awayScore - homeScore
+    return settleAsianHandicap(goalDifference, side === 'home' ? point : -point, odds)
+  }
+
+  if (market === 'totals' && point !== undefined) {
+    // Whole and quarter lines push or half-settle exactly like a handicap on the total
+    const total = homeScore + awayScore
+    return side === 'over'
+      ? settleAsianHandicap(total, -point, odds)
+      : settleAsianHandicap(-total, point, odds)
+  }
+
+  if (market === 'draw_no_bet' && homeScore === awayScore) return VOID
+
+  const wins = market === 'draw_no_bet'
+    ? legPredicate({ market: 'h2h', side })
+    : legPredicate(selection)
+  if (!wins) throw new Error(`Can't settle ${market} from a score`)
+
+  return wins(homeScore, awayScore)
+    ? { outcome: 'win', returnPerUnit: odds }
+    : { outcome: 'loss', returnPerUnit: 0 }
+}
+
+/**
+ * Return per unit staked on a match's selections: the match's price (which
+ * for a same-game multi isn't the product of its legs) when they all win
+ */
+export function settleUnit(selections: SettleableSelection[], unitOdds: number, score: MatchScore): number {
+  const results = selections.map(sel => settleSelection(sel, score.homeScore!, score.awayScore!))
+  if (results.length === 1) return results[0].returnPerUnit
+  if (results.every(result => result.outcome === 'win')) return unitOdds
+  return results.some(result => result.outcome === 'loss') ? 0 : results.reduce((acc, result) => acc * result.returnPerUnit, 1)
+}
+
+/**
+ * Whether the scores feed can settle a bet; outrights need settling by hand
+ */
+export function canSettleFromScores(bet: Pick<SettleableBet, 'selections'>): boolean {
+  return !bet.selections.some(sel => sel.market === 'outright')
+}
+
+/**
+ * Whether any match on a bet is held for review (see getMatchStatus)
+ */
+export function isBetInReview(bet: SettleableBet, scores: Record<string, MatchScore>, now: number = Date.now()): boolean {
+  return canSettleFromScores(bet) && Object.keys(bet.unitOdds).some(matchId =>
+    getMatchStatus(scores[matchId], bet.selections.find(sel => sel.matchId === matchId)?.commenceTime, now) === 'review'
+  )
+}
+
+/**
+ * Settle a bet once every match on it is completed or void
+ *
+ * Returns null while any match is still pending or held for review, or when
+ * the bet contains selections the scores feed can't settle (outrights).
+ */
+export function settleBetFromScores(bet: SettleableBet, scores: Record<string, MatchScore>, now: number = Date.now()): BetSettlement | null {
+  if (!canSettleFromScores(bet)) return null
+
+  const unitReturns: Record<string, number> = {}
+  for (const matchId of Object.keys(bet.unitOdds)) {
+    const score = scores[matchId]
+    const selections = bet.selections.filter(sel => sel.matchId === matchId)
+    const status = getMatchStatus(score, selections[0]?.commenceTime, now)
+    if (status === 'pending' || status === 'review') return null
+
+    unitReturns[matchId] = status === 'void'
+      ? 1
+      : settleUnit(selections, bet.unitOdds[matchId], score)
+  }
+
+  const lineReturn = (units: string[]) => units.reduce((acc, matchId) => acc * unitReturns[matchId], 1)
+  const payout = bet.systemBet
+    ? bet.systemBet.lines.reduce((sum, line) => sum + bet.systemBet!.stakePerLine * lineReturn(line.units), 0)
+    : bet.stake * lineReturn(Object.keys(bet.unitOdds))
+
+  return { payout, unitReturns }
+}
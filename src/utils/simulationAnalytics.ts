@@ -0,0 +1,209 @@
+/**
+ * Aggregate statistics over a batch of simulation trials
+ *
+ * Model figures (selection probabilities, scoreline probabilities and the
+ * expected RTP) come from the score distributions the trials were run with,
+ * so they compare the simulated outcomes against exactly what was sent.
+ */
+
+import { Selection } from '../types'
+import { ScoreProbability } from './oddsConverter'
+import { settleSelection } from './settlement'
+
+export interface TrialSummary {
+  stake: number
+  payout: number
+  legs: Array<{ selection: Selection, won: boolean }>
+  /** Final score of each match in the trial, with the distribution it was drawn from when known */
+  matches: Record<string, { label: string, home: number, away: number, probabilities?: ScoreProbability[] }>
+  /** Model return per unit staked, when it can be worked out */
+  expectedReturn?: number
+}
+
+export interface HistogramBin {
+  label: string
+  from: number
+  to: number
+  count: number
+}
+
+export interface SelectionHitRate {
+  id: string
+  label: string
+  hits: number
+  trials: number
+  hitRate: number
+  /** Chance of the selection winning under the score model */
+  modelProbability?: number
+  /** Chance implied by the price, margin included */
+  impliedProbability: number
+}
+
+export interface ScorelineCell {
+  home: number
+  away: number
+  /** Share of trials ending with this score */
+  observed: number
+  modelProbability: number
+}
+
+export interface RtpSummary {
+  realised: number
+  /** 95% confidence interval of the realised RTP */
+  lower: number
+  upper: number
+  /** Model RTP, when every trial has one */
+  expected?: number
+}
+
+/** z-score of a two-sided 95% confidence interval */
+const Z_95 = 1.96
+
+/**
+ * Probability a selection returns more than its stake under a score
+ * distribution
+ */
+export function getModelProbability(selection: Selection, probabilities: ScoreProbability[]): number {
+  return probabilities.reduce((sum, score) => {
+    const settlement = settleSelection(selection, score.home_score, score.away_score)
+    return settlement.returnPerUnit > 1 ? sum + score.probability : sum
+  }, 0)
+}
+
+/**
+ * Model return per unit staked on single-leg selections across independent
+ * matches (a single or an accumulator); undefined for same-game multis or
+ * when a match's distribution is missing
+ */
+export function getExpectedReturn(selections: Selection[], probabilitiesByMatch: Record<string, ScoreProbability[] | undefined>): number | undefined {
+  const matchIds = selections.map(sel => sel.matchId)
+  if (new Set(matchIds).size !== matchIds.length) return undefined
+
+  let expected = 1
+  for (const sel of selections) {
+    const probabilities = probabilitiesByMatch[sel.matchId]
+    if (!probabilities) return undefined
+    const total = probabilities.reduce((sum, score) => sum + score.probability, 0)
+    expected *= probabilities.reduce(
+      (sum, score) => sum + score.probability * settleSelection(sel, score.home_score, score.away_score).returnPerUnit,
+      0
+    ) / total
+  }
+  return expected
+}
+
+/**
+ * Profit per trial grouped into equal-width bins (about √n of them)
+ */
+export function getProfitHistogram(trials: TrialSummary[], maxBins: number = 20): HistogramBin[] {
+  if (trials.length === 0) return []
+  const profits = trials.map(trial => trial.payout - trial.stake)
+  const min = Math.min(...profits)
+  const max = Math.max(...profits)
+  if (max - min < 0.005) return [{ label: min.toFixed(0), from: min, to: max, count: profits.length }]
+
+  const binCount = Math.min(maxBins, Math.max(2, Math.ceil(Math.sqrt(profits.length))))
+  const width = (max - min) / binCount
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, idx) => ({
+    label: `${(min + idx * width).toFixed(0)}`,
+    from: min + idx * width,
+    to: min + (idx + 1) * width,
+    count: 0
+  }))
+  profits.forEach(profit => {
+    bins[Math.min(binCount - 1, Math.floor((profit - min) / width))].count++
+  })
+  return bins
+}
+
+/**
+ * Running total of profit after each trial, starting from 0
+ */
+export function getBankrollCurve(trials: TrialSummary[]): Array<{ trial: number, profit: number }> {
+  let profit = 0
+  return [{ trial: 0, profit: 0 }, ...trials.map((trial, idx) => {
+    profit += trial.payout - trial.stake
+    return { trial: idx + 1, profit }
+  })]
+}
+
+/**
+ * How often each selection won, against its model and implied chances
+ */
+export function getSelectionHitRates(trials: TrialSummary[]): SelectionHitRate[] {
+  const rates = new Map<string, SelectionHitRate>()
+  trials.forEach(trial => trial.legs.forEach(({ selection, won }) => {
+    let rate = rates.get(selection.id)
+    if (!rate) {
+      const probabilities = trial.matches[selection.matchId]?.probabilities
+      rate = {
+        id: selection.id,
+        label: `${selection.selection} (${selection.match})`,
+        hits: 0,
+        trials: 0,
+        hitRate: 0,
+        modelProbability: probabilities && getModelProbability(selection, probabilities),
+        impliedProbability: 1 / selection.odds
+      }
+      rates.set(selection.id, rate)
+    }
+    rate.trials++
+    if (won) rate.hits++
+    rate.hitRate = rate.hits / rate.trials
+  }))
+  return [...rates.values()]
+}
+
+/**
+ * Matches that ended in at least one trial, for the scoreline view
+ */
+export function getSimulatedMatches(trials: TrialSummary[]): Array<{ id: string, label: string }> {
+  const matches = new Map<string, string>()
+  trials.forEach(trial => Object.entries(trial.matches).forEach(([id, match]) => matches.set(id, match.label)))
+  return [...matches].map(([id, label]) => ({ id, label }))
+}
+
+/**
+ * Share of trials ending in each score against its model probability, for
+ * scores up to `maxGoals` a side
+ */
+export function getScorelineGrid(trials: TrialSummary[], matchId: string, maxGoals: number = 5): ScorelineCell[][] {
+  const played = trials.map(trial => trial.matches[matchId]).filter(match => match !== undefined)
+  const probabilities = played.find(match => match.probabilities)?.probabilities || []
+  const totalProbability = probabilities.reduce((sum, score) => sum + score.probability, 0) || 1
+
+  return Array.from({ length: maxGoals + 1 }, (_, home) => Array.from({ length: maxGoals + 1 }, (_, away) => ({
+    home,
+    away,
+    observed: played.length > 0 ? played.filter(match => match.home === home && match.away === away).length / played.length : 0,
+    modelProbability: (probabilities.find(score => score.home_score === home && score.away_score === away)?.probability || 0) / totalProbability
+  })))
+}
+
+/**
+ * Realised RTP (total paid out over total staked) with a 95% confidence
+ * interval from the spread of trial returns, and the model RTP
+ */
+export function getRtpSummary(trials: TrialSummary[]): RtpSummary | null {
+  const totalStake = trials.reduce((sum, trial) => sum + trial.stake, 0)
+  if (trials.length === 0 || totalStake <= 0) return null
+
+  const realised = trials.reduce((sum, trial) => sum + trial.payout, 0) / totalStake
+  // Standard error of a ratio estimator, so trials with different stakes weigh in proportion
+  const meanStake = totalStake / trials.length
+  const residuals = trials.reduce((sum, trial) => sum + (trial.payout - realised * trial.stake) ** 2, 0)
+  const standardError = trials.length > 1
+    ? Math.sqrt(residuals / (trials.length - 1) / trials.length) / meanStake
+    : 0
+
+  const expected = trials.every(trial => trial.expectedReturn !== undefined)
+    ? trials.reduce((sum, trial) => sum + trial.stake * trial.expectedReturn!, 0) / totalStake
+    : undefined
+
+  return {
+    realised,
+    lower: Math.max(0, realised - Z_95 * standardError),
+    upper: realised + Z_95 * standardError,
+    expected
+  }
+}
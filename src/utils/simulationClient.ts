@@ -0,0 +1,78 @@
+/**
+ * Runs a batch of simulation trials through a bounded pool of concurrent
+ * requests
+ *
+ * The simulation API prices one trial per request, so a batch of N trials
+ * keeps up to SIMULATION_CONCURRENCY requests in flight rather than waiting
+ * on each in turn. Failed trials are counted instead of dropped silently, and
+ * aborting the signal stops new trials from starting and cancels the ones in
+ * flight.
+ */
+
+export const SIMULATION_CONCURRENCY = 6
+
+export interface TrialProgress {
+  completed: number
+  failed: number
+  total: number
+}
+
+export interface TrialBatch<T> {
+  /** Results of the trials that succeeded, in trial order */
+  results: T[]
+  failed: number
+  total: number
+  cancelled: boolean
+}
+
+interface RunTrialsOptions {
+  concurrency?: number
+  signal?: AbortSignal
+  onProgress?: (progress: TrialProgress) => void
+}
+
+/**
+ * Run `total` trials, calling `runTrial` with each trial's index; a trial
+ * fails by throwing
+ */
+export async function runTrials<T>(
+  total: number,
+  runTrial: (index: number) => Promise<T>,
+  { concurrency = SIMULATION_CONCURRENCY, signal, onProgress }: RunTrialsOptions = {}
+): Promise<TrialBatch<T>> {
+  const outcomes: Array<{ result: T } | undefined> = new Array(total)
+  let next = 0
+  let completed = 0
+  let failed = 0
+
+  const worker = async () => {
+    while (next < total && !signal?.aborted) {
+      const index = next++
+      try {
+        outcomes[index] = { result: await runTrial(index) }
+        completed++
+      } catch (err) {
+        // Trials cut short by cancelling aren't failures
+        if (signal?.aborted) return
+        console.error(`Simulation trial ${index + 1} failed:`, err)
+        failed++
+      }
+      onProgress?.({ completed, failed, total })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, total) }, worker))
+
+  const results = outcomes.filter((outcome): outcome is { result: T } => outcome !== undefined).map(outcome => outcome.result)
+  return { results, failed, total, cancelled: !!signal?.aborted }
+}
+
+/**
+ * A one-line summary of trials that didn't complete, or null when all did
+ */
+export function describeTrialBatch(batch: Pick<TrialBatch<unknown>, 'results' | 'failed' | 'total' | 'cancelled'>): string | null {
+  const parts: string[] = []
+  if (batch.failed > 0) parts.push(`${batch.failed} of ${batch.total} trial${batch.total === 1 ? '' : 's'} failed`)
+  if (batch.cancelled) parts.push(`cancelled after ${batch.results.length + batch.failed} of ${batch.total}`)
+  return parts.length > 0 ? parts.join('; ') : null
+}
@@ -0,0 +1,85 @@
+/**
+ * Simulator controls for Sim mode, persisted per user
+ *
+ * Every trial sent to the simulation API carries a volatility and, for admin
+ * users, a target RTP that overrides the server's configured one. The local
+ * engine draws scores from the fair score model and ignores both.
+ */
+
+export type Volatility = 'low' | 'medium' | 'high'
+
+export const VOLATILITIES: Array<{ value: Volatility, label: string, description: string }> = [
+  { value: 'low', label: 'Low', description: 'Frequent small wins' },
+  { value: 'medium', label: 'Medium', description: 'The simulator\'s default balance of win size and frequency' },
+  { value: 'high', label: 'High', description: 'Rare large wins' }
+]
+
+/** Range of target RTPs an admin can set, as a fraction of stake */
+export const TARGET_RTP_MIN = 0.5
+export const TARGET_RTP_MAX = 1.2
+
+export interface SimulationControls {
+  volatility: Volatility
+  /** RTP the simulator should aim for; null keeps the server's configured RTP */
+  targetRtp: number | null
+}
+
+export const DEFAULT_SIMULATION_CONTROLS: SimulationControls = {
+  volatility: 'medium',
+  targetRtp: null
+}
+
+/** The controls as sent with each simulation request */
+export interface SimulationParameters {
+  volatility: Volatility
+  target_rtp?: number
+}
+
+const controlsKey = (userId: string) => `simulation_controls_${userId}`
+
+export function clampTargetRtp(rtp: number): number {
+  return Math.min(TARGET_RTP_MAX, Math.max(TARGET_RTP_MIN, rtp))
+}
+
+export function loadSimulationControls(userId: string): SimulationControls {
+  try {
+    const stored: Partial<SimulationControls> = JSON.parse(localStorage.getItem(controlsKey(userId)) || '{}')
+    const controls = { ...DEFAULT_SIMULATION_CONTROLS, ...stored }
+    return {
+      volatility: VOLATILITIES.some(level => level.value === controls.volatility) ? controls.volatility : DEFAULT_SIMULATION_CONTROLS.volatility,
+      targetRtp: typeof controls.targetRtp === 'number' ? clampTargetRtp(controls.targetRtp) : null
+    }
+  } catch {
+    return DEFAULT_SIMULATION_CONTROLS
+  }
+}
+
+export function saveSimulationControls(userId: string, controls: SimulationControls) {
+  localStorage.setItem(controlsKey(userId), JSON.stringify(controls))
+}
+
+/**
+ * Request fields for the controls; the target RTP is only sent for admins,
+ * and the API is expected to check the token's role as well
+ */
+export function getSimulationParameters(controls: SimulationControls, isAdmin: boolean): SimulationParameters {
+  return isAdmin && controls.targetRtp !== null
+    ? { volatility: controls.volatility, target_rtp: controls.targetRtp }
+    : { volatility: controls.volatility }
+}
+
+/** Display label of a volatility, including ones recorded by the server */
+export function getVolatilityLabel(volatility: string): string {
+  return VOLATILITIES.find(level => level.value === volatility)?.label || volatility
+}
+
+/**
+ * Short description of the parameters a trial was run with, e.g.
+ * "High volatility, target RTP 95.0%"
+ */
+export function describeSimulationParameters(parameters: { volatility: string, target_rtp?: number }): string {
+  const volatility = `${getVolatilityLabel(parameters.volatility)} volatility`
+  return parameters.target_rtp !== undefined
+    ? `${volatility}, target RTP ${(parameters.target_rtp * 100).toFixed(1)}%`
+    : `${volatility}, configured RTP`
+}
@@ -0,0 +1,162 @@
+/**
+ * Simulation engine abstraction
+ *
+ * Trials run either on the simulation API ("remote") or in the browser
+ * ("local", in a Web Worker). Both take the API's request bodies and answer
+ * in its response shape. The remote engine falls back to the local one for
+ * the rest of a batch once the API can't be reached.
+ */
+
+import { SimulateMultiRequest, SimulateMultiResponse, SimulateRequest, SimulateResponse, simulateMatch, simulateMultiMatch } from './localSimulation'
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationWorker'
+
+interface SimulationCalls {
+  '/api/simulate': { request: SimulateRequest, response: SimulateResponse }
+  '/api/simulate-multi': { request: SimulateMultiRequest, response: SimulateMultiResponse }
+}
+
+export type SimulationPath = keyof SimulationCalls
+export type SimulationRequest<P extends SimulationPath> = SimulationCalls[P]['request']
+export type SimulationResponse<P extends SimulationPath> = SimulationCalls[P]['response']
+
+export interface SimulationEngine {
+  name: string
+  simulate<P extends SimulationPath>(path: P, request: SimulationRequest<P>, signal: AbortSignal): Promise<SimulationResponse<P>>
+}
+
+export type SimulationEngineKind = 'remote' | 'local'
+
+export const SIMULATION_ENGINES: Array<{ value: SimulationEngineKind, label: string, description: string }> = [
+  { value: 'remote', label: 'Simulation API', description: 'Run trials on the server and record them in your stats; uses the local engine if it can\'t be reached' },
+  { value: 'local', label: 'Local', description: 'Run trials in the browser; works offline but isn\'t recorded in your stats' }
+]
+
+let worker: Worker | undefined
+// Set once the worker fails to load or crashes; trials then run in-thread
+let isWorkerUnavailable = false
+let nextMessageId = 0
+const pendingMessages = new Map<number, { resolve: (result: unknown) => void, reject: (error: Error) => void }>()
+
+/**
+ * Reject every trial waiting on the worker and drop it
+ */
+function failWorker(error: Error) {
+  console.error(error)
+  isWorkerUnavailable = true
+  worker?.terminate()
+  worker = undefined
+  const pending = [...pendingMessages.values()]
+  pendingMessages.clear()
+  pending.forEach(message => message.reject(error))
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+      const message = event.data
+      const pending = pendingMessages.get(message.id)
+      if (!pending) return
+      pendingMessages.delete(message.id)
+      if ('error' in message) pending.reject(new Error(message.error))
+      else pending.resolve(message.result)
+    }
+    worker.onerror = event => {
+      event.preventDefault()
+      failWorker(new Error(`Simulation worker failed: ${event.message || 'it could not be loaded'}`))
+    }
+    worker.onmessageerror = () => failWorker(new Error('Simulation worker sent a message that could not be read'))
+  }
+  return worker
+}
+
+function runInWorker(message: Omit<SimulationWorkerRequest, 'id'>, signal: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Simulation cancelled', 'AbortError'))
+      return
+    }
+    const id = nextMessageId++
+    const onAbort = () => {
+      // The worker's answer is ignored once the trial is cancelled
+      if (pendingMessages.delete(id)) reject(new DOMException('Simulation cancelled', 'AbortError'))
+    }
+    // Batches share one signal, so each trial removes its listener when it settles
+    pendingMessages.set(id, {
+      resolve: result => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(result)
+      },
+      reject: error => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    })
+    signal.addEventListener('abort', onAbort, { once: true })
+    getWorker().postMessage({ ...message, id })
+  })
+}
+
+function simulateInThread<P extends SimulationPath>(path: P, request: SimulationRequest<P>): SimulationResponse<P> {
+  return (path === '/api/simulate'
+    ? simulateMatch(request as SimulateRequest)
+    : simulateMultiMatch(request as SimulateMultiRequest)) as SimulationResponse<P>
+}
+
+export function createLocalSimulationEngine(): SimulationEngine {
+  return {
+    name: 'Local',
+
+    async simulate<P extends SimulationPath>(path: P, request: SimulationRequest<P>, signal: AbortSignal) {
+      // Without worker support (e.g. outside a browser) trials run in-thread
+      if (typeof Worker === 'undefined' || isWorkerUnavailable) return simulateInThread(path, request)
+      try {
+        return await runInWorker({ path, request } as Omit<SimulationWorkerRequest, 'id'>, signal) as SimulationResponse<P>
+      } catch (err) {
+        // Trials caught by a worker failure are run again in-thread
+        if (!isWorkerUnavailable || signal.aborted) throw err
+        return simulateInThread(path, request)
+      }
+    }
+  }
+}
+
+/**
+ * Engine posting to the simulation API through `post`; a network error
+ * (rather than an error response) switches to the local engine and calls
+ * `onFallback` once
+ */
+export function createRemoteSimulationEngine(
+  post: (path: SimulationPath, request: object, signal: AbortSignal) => Promise<unknown>,
+  onFallback?: () => void
+): SimulationEngine {
+  const local = createLocalSimulationEngine()
+  let isUnreachable = false
+
+  return {
+    name: 'Simulation API',
+
+    async simulate<P extends SimulationPath>(path: P, request: SimulationRequest<P>, signal: AbortSignal) {
+      if (isUnreachable) return local.simulate(path, request, signal)
+      try {
+        return await post(path, request, signal) as SimulationResponse<P>
+      } catch (err) {
+        // fetch rejects with a TypeError when the server can't be reached
+        if (!(err instanceof TypeError) || signal.aborted) throw err
+        if (!isUnreachable) {
+          isUnreachable = true
+          onFallback?.()
+        }
+        return local.simulate(path, request, signal)
+      }
+    }
+  }
+}
+
+export function createSimulationEngine(
+  kind: SimulationEngineKind,
+  post: (path: SimulationPath, request: object, signal: AbortSignal) => Promise<unknown>,
+  onFallback?: () => void
+): SimulationEngine {
+  return kind === 'local' ? createLocalSimulationEngine() : createRemoteSimulationEngine(post, onFallback)
+}
@@ -0,0 +1,28 @@
+/**
+ * Web Worker running the local simulation engine off the main thread
+ *
+ * Messages are `{ id, path, request }` with the API path the request was
+ * meant for; the reply carries the same id with the result or an error.
+ */
+
+import { SimulateMultiRequest, SimulateRequest, simulateMatch, simulateMultiMatch } from './localSimulation'
+
+export type SimulationWorkerRequest =
+  | { id: number, path: '/api/simulate', request: SimulateRequest }
+  | { id: number, path: '/api/simulate-multi', request: SimulateMultiRequest }
+
+export type SimulationWorkerResponse =
+  | { id: number, result: unknown }
+  | { id: number, error: string }
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const message = event.data
+  try {
+    const result = message.path === '/api/simulate'
+      ? simulateMatch(message.request)
+      : simulateMultiMatch(message.request)
+    self.postMessage({ id: message.id, result } satisfies SimulationWorkerResponse)
+  } catch (err) {
+    self.postMessage({ id: message.id, error: err instanceof Error ? err.message : String(err) } satisfies SimulationWorkerResponse)
+  }
+}
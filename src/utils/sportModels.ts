@@ -0,0 +1,359 @@
+/**
+ * Per-sport outcome models
+ *
+ * Every sport is reduced to a list of final-score probabilities, the format
+ * the simulation API samples from:
+ * - Soccer: the Dixon-Coles goal matrix (see scoreModel.ts)
+ * - Ice hockey: a Poisson goal matrix fitted to the moneyline, with
+ *   regulation ties resolved by a one-goal overtime winner
+ * - Basketball and American football: normally distributed winning margin
+ *   and total points, fitted to the spread (or moneyline) and totals
+ * - Tennis: sets, with a constant per-set win probability fitted to the
+ *   match winner price
+ */
+
+import { Match, MarketOdds } from '../types'
+import { ScoreProbability } from './oddsConverter'
+import { MarginMethod, removeMargin } from './margin'
+import { buildScoreMatrix, fitExpectedGoals, matrixOutcomes, OutcomeTargets, TotalsTarget } from './scoreModel'
+import {
+  DEFAULT_MARKET_MARGINS,
+  generateMissingMarkets,
+  MarketGeneratorOptions,
+  MatchMarkets,
+  oddsToProbabilities,
+  priceWithMargin,
+  ProbabilityOptions
+} from './marketGenerator'
+import { getSportConfig, setsToWin } from './sports'
+
+type SportMatch = Pick<Match, 'sport' | 'sportKey' | 'spread'>
+
+interface PointsModel {
+  /** Standard deviation of the final winning margin */
+  marginSd: number
+  /** Standard deviation of the final total points */
+  totalSd: number
+  /** Expected total points when no totals market is quoted */
+  defaultTotal: number
+}
+
+const POINTS_MODELS: Record<'basketball' | 'americanfootball', PointsModel> = {
+  basketball: { marginSd: 12, totalSd: 18, defaultTotal: 225 },
+  americanfootball: { marginSd: 13.5, totalSd: 13, defaultTotal: 44 }
+}
+
+/** Totals target used for ice hockey when no totals market is quoted */
+const HOCKEY_DEFAULT_TOTALS: TotalsTarget = { point: 5.5, over: 0.5 }
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Inverse of the standard normal distribution, by bisection
+ */
+function normalQuantile(p: number): number {
+  let lo = -10
+  let hi = 10
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2
+    if (normalCdf(mid) < p) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+/**
+ * Accumulate probabilities per final score, then normalise
+ */
+function collectScores(add: (accumulate: (home: number, away: number, probability: number) => void) => void): ScoreProbability[] {
+  const scores = new Map<string, ScoreProbability>()
+  let total = 0
+
+  add((home, away, probability) => {
+    const key = `${home}-${away}`
+    const existing = scores.get(key)
+    if (existing) existing.probability += probability
+    else scores.set(key, { home_score: home, away_score: away, probability })
+    total += probability
+  })
+
+  return Array.from(scores.values()).map(score => ({ ...score, probability: score.probability / total }))
+}
+
+function hockeyScoreProbabilities(markets: Pick<Match, 'h2h' | 'totals'>, options: ProbabilityOptions): ScoreProbability[] {
+  const { h2h, totals } = markets
+  if (!h2h) return []
+
+  const method = options.marginMethod
+  const model = { rho: 0, ...options.model }
+
+  // A three-way price is a regulation-time market, so regulation is fitted
+  // to it; ties still go to overtime, as results include it
+  let outcomes: OutcomeTargets
+  if (h2h.draw) {
+    const [home, draw, away] = removeMargin([h2h.home, h2h.draw, h2h.away], method)
+    outcomes = { home, draw, away }
+  } else {
+    const [home, away] = removeMargin([h2h.home, h2h.away], method)
+    outcomes = { home, draw: 0, away }
+  }
+
+  const totalsTarget = totals
+    ? { point: totals.point, over: removeMargin([totals.over, totals.under], method)[0] }
+    : HOCKEY_DEFAULT_TOTALS
+
+  const withOvertime = (regulationTarget: TotalsTarget) => {
+    const matrix = buildScoreMatrix(fitExpectedGoals(outcomes, regulationTarget, model), model)
+    const regulation = matrixOutcomes(matrix)
+    const homeShare = regulation.home / (regulation.home + regulation.away)
+
+    return collectScores(accumulate => matrix.forEach((row, x) => row.forEach((p, y) => {
+      if (x !== y) {
+        accumulate(x, y, p)
+      } else {
+        accumulate(x + 1, y, p * homeShare)
+        accumulate(x, y + 1, p * (1 - homeShare))
+      }
+    })))
+  }
+
+  // The quoted total includes the overtime goal, so nudge the regulation
+  // target until the final-score distribution matches it
+  let regulationTarget = totalsTarget
+  let scores = withOvertime(regulationTarget)
+  for (let i = 0; i < 3; i++) {
+    const over = scores.reduce((sum, s) => s.home_score + s.away_score > totalsTarget.point ? sum + s.probability : sum, 0)
+    regulationTarget = {
+      point: totalsTarget.point,
+      over: Math.min(0.99, Math.max(0.01, regulationTarget.over + totalsTarget.over - over))
+    }
+    scores = withOvertime(regulationTarget)
+  }
+  return scores
+}
+
+/**
+ * Two-way moneyline for an ice hockey match quoted three-way
+ *
+ * Three-way prices are for regulation time, but results include overtime
+ * and shootouts, so a draw could never win. The draw is shared out in
+ * proportion to the home and away chances, as the score model resolves
+ * regulation ties, and the book keeps its overround.
+ */
+export function toOvertimeMoneyline(h2h: MarketOdds, method?: MarginMethod): MarketOdds {
+  if (!h2h.draw) return h2h
+  const [home, , away] = removeMargin([h2h.home, h2h.draw, h2h.away], method)
+  // Best prices across bookmakers can make a book under 100%
+  const overround = Math.max(0, 1 / h2h.home + 1 / h2h.draw + 1 / h2h.away - 1)
+  const homeWin = home / (home + away)
+  return {
+    home: priceWithMargin(homeWin, overround),
+    away: priceWithMargin(1 - homeWin, overround)
+  }
+}
+
+function pointsScoreProbabilities(
+  match: SportMatch,
+  markets: Pick<Match, 'h2h' | 'totals'>,
+  model: PointsModel,
+  options: ProbabilityOptions
+): ScoreProbability[] {
+  const method = options.marginMethod
+  const { marginSd, totalSd } = model
+
+  // Home covers when margin + point > 0, so P(margin > -point) = P(cover)
+  let marginMean: number
+  if (match.spread) {
+    const [cover] = removeMargin([match.spread.home, match.spread.away], method)
+    marginMean = -match.spread.point + marginSd * normalQuantile(cover)
+  } else if (markets.h2h) {
+    const [homeWin] = removeMargin([markets.h2h.home, markets.h2h.away], method)
+    marginMean = marginSd * normalQuantile(homeWin)
+  } else {
+    return []
+  }
+
+  const totalMean = markets.totals
+    ? markets.totals.point + totalSd * normalQuantile(removeMargin([markets.totals.over, markets.totals.under], method)[0])
+    : model.defaultTotal
+
+  const marginProbability = (from: number, to: number) =>
+    normalCdf((to - marginMean) / marginSd) - normalCdf((from - marginMean) / marginSd)
+
+  // Regulation ties go to overtime, split evenly between one- and two-point
+  // wins so the odd/even split isn't pushed towards odd
+  const tie = marginProbability(-0.5, 0.5)
+  const homeShare = 1 - normalCdf(-marginMean / marginSd)
+  const margins: Array<{ margin: number, probability: number }> = []
+  for (let margin = Math.floor(marginMean - 3.5 * marginSd); margin <= Math.ceil(marginMean + 3.5 * marginSd); margin++) {
+    if (margin === 0) continue
+    let probability = marginProbability(margin - 0.5, margin + 0.5)
+    if (margin === 1 || margin === 2) probability += tie * homeShare / 2
+    if (margin === -1 || margin === -2) probability += tie * (1 - homeShare) / 2
+    margins.push({ margin, probability })
+  }
+
+  // Totals are binned to keep the distribution a manageable size. home + away
+  // and home - away always share a parity, so the step is even and each
+  // margin's totals start on its own parity
+  const step = 2 * Math.max(1, Math.floor(totalSd / 8))
+  const totalProbability = (total: number) =>
+    normalCdf((total + step / 2 - totalMean) / totalSd) - normalCdf((total - step / 2 - totalMean) / totalSd)
+  const lowestTotal = Math.round(totalMean - 3.5 * totalSd)
+
+  return collectScores(accumulate => margins.forEach(({ margin, probability: pMargin }) => {
+    const first = lowestTotal + Math.abs(lowestTotal - margin) % 2
+    for (let total = first; total <= totalMean + 3.5 * totalSd; total += step) {
+      const home = (total + margin) / 2
+      const away = home - margin
+      if (home >= 0 && away >= 0) accumulate(home, away, pMargin * totalProbability(total))
+    }
+  }))
+}
+
+function tennisScoreProbabilities(match: SportMatch, markets: Pick<Match, 'h2h'>, options: ProbabilityOptions): ScoreProbability[] {
+  if (!markets.h2h) return []
+
+  const [matchWin] = removeMargin([markets.h2h.home, markets.h2h.away], options.marginMethod)
+  const setsNeeded = setsToWin(match.sportKey)
+
+  const binomial = (n: number, k: number) => {
+    let result = 1
+    for (let i = 1; i <= k; i++) result = result * (n - k + i) / i
+    return result
+  }
+  // Probability of winning `setsNeeded` sets while losing `lost`
+  const scoreProbability = (setWin: number, lost: number) =>
+    binomial(setsNeeded - 1 + lost, lost) * Math.pow(setWin, setsNeeded) * Math.pow(1 - setWin, lost)
+  const matchWinProbability = (setWin: number) => {
+    let total = 0
+    for (let lost = 0; lost < setsNeeded; lost++) total += scoreProbability(setWin, lost)
+    return total
+  }
+
+  let lo = 0
+  let hi = 1
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2
+    if (matchWinProbability(mid) < matchWin) lo = mid
+    else hi = mid
+  }
+  const setWin = (lo + hi) / 2
+
+  return collectScores(accumulate => {
+    for (let lost = 0; lost < setsNeeded; lost++) {
+      accumulate(setsNeeded, lost, scoreProbability(setWin, lost))
+      accumulate(lost, setsNeeded, scoreProbability(1 - setWin, lost))
+    }
+  })
+}
+
+/**
+ * Final-score distribution for a match, using its sport's model
+ * Used when sending to simulation API
+ */
+export function sportScoreProbabilities(
+  match: SportMatch,
+  markets: Pick<Match, 'h2h' | 'totals'>,
+  options: ProbabilityOptions = {}
+): ScoreProbability[] {
+  switch (match.sport) {
+    case 'icehockey':
+      return hockeyScoreProbabilities(markets, options)
+    case 'basketball':
+    case 'americanfootball':
+      return pointsScoreProbabilities(match, markets, POINTS_MODELS[match.sport], options)
+    case 'tennis':
+      return tennisScoreProbabilities(match, markets, options)
+    case 'soccer':
+    default:
+      return oddsToProbabilities(markets, undefined, options)
+  }
+}
+
+/**
+ * Generate the markets a sport offers but the bookmakers didn't quote
+ *
+ * Soccer uses the full set from generateMissingMarkets; other sports price
+ * their own markets from the sport's final-score distribution.
+ */
+export function generateSportMarkets(
+  match: SportMatch,
+  markets: Pick<Match, 'h2h' | 'totals'>,
+  options: MarketGeneratorOptions = {}
+): MatchMarkets {
+  if (!match.sport || match.sport === 'soccer') {
+    return generateMissingMarkets(markets, undefined, options)
+  }
+
+  const margins = { ...DEFAULT_MARKET_MARGINS, ...options.margins }
+  const offered = getSportConfig(match).markets
+  const generated: MatchMarkets = {
+    ...(markets.h2h ? { h2h: markets.h2h } : {}),
+    ...(markets.totals ? { totals: markets.totals } : {})
+  }
+
+  const scores = sportScoreProbabilities(match, markets, options)
+  if (scores.length === 0) return generated
+
+  const probability = (predicate: (home: number, away: number) => boolean) =>
+    scores.reduce((sum, s) => predicate(s.home_score, s.away_score) ? sum + s.probability : sum, 0)
+
+  if (offered.includes('totals')) {
+    const totalsAt = (point: number) => {
+      const over = probability((home, away) => home + away > point)
+      const under = probability((home, away) => home + away < point)
+      return {
+        point,
+        over: priceWithMargin(over / (over + under), margins.totals),
+        under: priceWithMargin(under / (over + under), margins.totals)
+      }
+    }
+
+    if (!generated.totals) {
+      const expectedTotal = scores.reduce((sum, s) => sum + (s.home_score + s.away_score) * s.probability, 0)
+      generated.totals = totalsAt(Math.floor(expectedTotal) + 0.5)
+    }
+
+    const mainPoint = generated.totals.point
+    const step = match.sport === 'icehockey' ? 1 : Math.max(1, Math.round(POINTS_MODELS[match.sport as keyof typeof POINTS_MODELS].totalSd / 4))
+    generated.alternateTotals = [-2, -1, 1, 2]
+      .map(offset => mainPoint + offset * step)
+      .filter(point => point > 0)
+      .map(totalsAt)
+  }
+
+  if (offered.includes('btts')) {
+    const yes = probability((home, away) => home > 0 && away > 0)
+    generated.bothTeamsToScore = {
+      yes: priceWithMargin(yes, margins.bothTeamsToScore),
+      no: priceWithMargin(1 - yes, margins.bothTeamsToScore)
+    }
+  }
+
+  if (offered.includes('odd_even')) {
+    const odd = probability((home, away) => (home + away) % 2 === 1)
+    generated.oddEven = {
+      odd: priceWithMargin(odd, margins.oddEven),
+      even: priceWithMargin(1 - odd, margins.oddEven)
+    }
+  }
+
+  if (offered.includes('correct_score')) {
+    generated.correctScore = {
+      scores: [...scores]
+        .sort((a, b) => b.probability - a.probability)
+        .map(s => ({ score: `${s.home_score}-${s.away_score}`, odds: priceWithMargin(s.probability, margins.correctScore) }))
+    }
+  }
+
+  return generated
+}
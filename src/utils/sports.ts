@@ -0,0 +1,118 @@
+/**
+ * Supported sports and how their matches are scored, priced and displayed
+ *
+ * The Odds API sport keys start with the sport (`soccer_epl`,
+ * `basketball_nba`, `tennis_atp_paris`), which is how leagues and matches are
+ * mapped to a sport.
+ */
+
+import { BetMarket, Match, Sport } from '../types'
+
+export interface SportConfig {
+  sport: Sport
+  /** `group` of the sport in the Odds API sports list */
+  group: string
+  label: string
+  /** What a score counts, e.g. "Goals" or "Sets" */
+  scoreUnit: string
+  /** Whether the match result market has a draw */
+  hasDraw: boolean
+  /** Markets offered on the match card */
+  markets: BetMarket[]
+  h2hLabel: string
+  spreadLabel: string
+  correctScoreLabel: string
+}
+
+export const SPORTS: Record<Sport, SportConfig> = {
+  soccer: {
+    sport: 'soccer',
+    group: 'Soccer',
+    label: 'Football',
+    scoreUnit: 'Goals',
+    hasDraw: true,
+    markets: ['h2h', 'spreads', 'totals', 'btts', 'correct_score', 'double_chance', 'draw_no_bet', 'winning_margin', 'odd_even'],
+    h2hLabel: '1X2',
+    spreadLabel: 'Asian Handicap',
+    correctScoreLabel: 'Correct Score (Most Likely)'
+  },
+  basketball: {
+    sport: 'basketball',
+    group: 'Basketball',
+    label: 'Basketball',
+    scoreUnit: 'Points',
+    hasDraw: false,
+    markets: ['h2h', 'spreads', 'totals', 'odd_even'],
+    h2hLabel: 'Moneyline',
+    spreadLabel: 'Point Spread',
+    correctScoreLabel: 'Correct Score'
+  },
+  icehockey: {
+    sport: 'icehockey',
+    group: 'Ice Hockey',
+    label: 'Ice Hockey',
+    scoreUnit: 'Goals',
+    hasDraw: false,
+    markets: ['h2h', 'spreads', 'totals', 'btts', 'odd_even'],
+    h2hLabel: 'Moneyline',
+    spreadLabel: 'Puck Line',
+    correctScoreLabel: 'Correct Score'
+  },
+  americanfootball: {
+    sport: 'americanfootball',
+    group: 'American Football',
+    label: 'American Football',
+    scoreUnit: 'Points',
+    hasDraw: false,
+    markets: ['h2h', 'spreads', 'totals', 'odd_even'],
+    h2hLabel: 'Moneyline',
+    spreadLabel: 'Point Spread',
+    correctScoreLabel: 'Correct Score'
+  },
+  tennis: {
+    sport: 'tennis',
+    group: 'Tennis',
+    label: 'Tennis',
+    scoreUnit: 'Sets',
+    hasDraw: false,
+    // Quoted tennis spreads and totals are in games, which a sets model can't settle
+    markets: ['h2h', 'correct_score'],
+    h2hLabel: 'Match Winner',
+    spreadLabel: 'Games Handicap',
+    correctScoreLabel: 'Set Betting'
+  }
+}
+
+/**
+ * Sport of an Odds API sport key, or undefined for unsupported sports
+ */
+export function sportFromKey(sportKey: string): Sport | undefined {
+  const prefix = sportKey.split('_')[0]
+  return prefix in SPORTS ? prefix as Sport : undefined
+}
+
+/**
+ * Sport of an Odds API sports-list group, or undefined for unsupported groups
+ */
+export function sportFromGroup(group: string): Sport | undefined {
+  return (Object.values(SPORTS).find(config => config.group === group))?.sport
+}
+
+/**
+ * Display and pricing rules for a match (matches cached before multi-sport
+ * support have no sport and are soccer)
+ */
+export function getSportConfig(match: Pick<Match, 'sport'>): SportConfig {
+  return SPORTS[match.sport || 'soccer']
+}
+
+/**
+ * Number of sets needed to win a tennis match: men's Grand Slams are best of
+ * five, everything else best of three
+ */
+export function setsToWin(sportKey?: string): number {
+  const grandSlams = ['aus_open', 'french_open', 'wimbledon', 'us_open']
+  const isMensSlam = !!sportKey && sportKey.startsWith('tennis_atp_') &&
+    grandSlams.some(slam => sportKey.endsWith(slam))
+  return isMensSlam ? 3 : 2
+}
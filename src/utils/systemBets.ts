@@ -0,0 +1,130 @@
+/**
+ * System bets: expand a bet slip into several lines, each an accumulator of
+ * some of the selections, staked and settled independently
+ *
+ * A line is built from slip "units": one per match (several selections on a
+ * match count once, at their same-game multi price) or one per outright.
+ */
+
+import { BetLine } from '../types'
+
+export type SystemBetType =
+  | 'accumulator'
+  | 'singles'
+  | 'doubles'
+  | 'trebles'
+  | 'trixie'
+  | 'patent'
+  | 'yankee'
+  | 'lucky15'
+  | 'lucky31'
+  | 'lucky63'
+  | 'heinz'
+  | 'custom'
+
+export interface SystemBet {
+  type: SystemBetType
+  /** Line size for a custom "X from N" bet */
+  size?: number
+}
+
+interface SystemBetDefinition {
+  value: SystemBetType
+  label: string
+  description: string
+  /** Exact number of units the bet is defined for, if any */
+  units?: number
+  /** Line sizes for a slip of `n` units */
+  sizes: (n: number, bet: SystemBet) => number[]
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+
+export const SYSTEM_BETS: SystemBetDefinition[] = [
+  { value: 'accumulator', label: 'Accumulator', description: 'One line with every selection', sizes: n => [n] },
+  { value: 'singles', label: 'Singles', description: 'Every selection on its own', sizes: () => [1] },
+  { value: 'doubles', label: 'Doubles', description: 'Every pair of selections', sizes: () => [2] },
+  { value: 'trebles', label: 'Trebles', description: 'Every three selections', sizes: () => [3] },
+  { value: 'trixie', label: 'Trixie', description: '3 doubles and a treble', units: 3, sizes: () => [2, 3] },
+  { value: 'patent', label: 'Patent', description: '3 singles, 3 doubles and a treble', units: 3, sizes: () => [1, 2, 3] },
+  { value: 'yankee', label: 'Yankee', description: '6 doubles, 4 trebles and a four-fold', units: 4, sizes: () => [2, 3, 4] },
+  { value: 'lucky15', label: 'Lucky 15', description: 'Yankee plus 4 singles', units: 4, sizes: () => range(1, 4) },
+  { value: 'lucky31', label: 'Lucky 31', description: 'Every combination of 5 selections', units: 5, sizes: () => range(1, 5) },
+  { value: 'lucky63', label: 'Lucky 63', description: 'Every combination of 6 selections', units: 6, sizes: () => range(1, 6) },
+  { value: 'heinz', label: 'Heinz', description: 'Every double and up of 6 selections', units: 6, sizes: () => range(2, 6) },
+  { value: 'custom', label: 'X from N', description: 'Every combination of a chosen size', sizes: (_, bet) => [bet.size || 2] }
+]
+
+export interface SystemBetUnit {
+  /** Match or outright id */
+  key: string
+  odds: number
+}
+
+function getDefinition(type: SystemBetType): SystemBetDefinition {
+  return SYSTEM_BETS.find(definition => definition.value === type) || SYSTEM_BETS[0]
+}
+
+/**
+ * Whether the bet can be built from a slip with `units` units
+ */
+export function isSystemBetAvailable(bet: SystemBet, units: number): boolean {
+  const definition = getDefinition(bet.type)
+  if (units === 0) return false
+  if (definition.units !== undefined) return definition.units === units
+  return definition.sizes(units, bet).every(size => size >= 1 && size <= units)
+}
+
+/**
+ * Display name of a bet, e.g. "Yankee" or "2 from 5"
+ */
+export function getSystemBetLabel(bet: SystemBet, units: number): string {
+  if (bet.type === 'custom') return `${bet.size || 2} from ${units}`
+  return getDefinition(bet.type).label
+}
+
+/**
+ * Every way to choose `size` of the first `n` indices, in lexicographic order
+ */
+export function combinations(n: number, size: number): number[][] {
+  const result: number[][] = []
+  const pick = (start: number, chosen: number[]) => {
+    if (chosen.length === size) {
+      result.push(chosen)
+      return
+    }
+    for (let i = start; i <= n - (size - chosen.length); i++) {
+      pick(i + 1, [...chosen, i])
+    }
+  }
+  pick(0, [])
+  return result
+}
+
+/**
+ * Expand the slip into the bet's lines, smallest lines first
+ */
+export function buildSystemLines(units: SystemBetUnit[], bet: SystemBet): BetLine[] {
+  if (!isSystemBetAvailable(bet, units.length)) return []
+
+  return getDefinition(bet.type).sizes(units.length, bet).flatMap(size =>
+    combinations(units.length, size).map(indices => ({
+      units: indices.map(i => units[i].key),
+      odds: indices.reduce((acc, i) => acc * units[i].odds, 1)
+    }))
+  )
+}
+
+/**
+ * Settle every line from the result of each unit: a line pays
+ * `stakePerLine × odds` when all of its units won
+ */
+export function settleSystemLines(
+  lines: BetLine[],
+  unitWon: Record<string, boolean>,
+  stakePerLine: number
+): { linesWon: boolean[], payout: number } {
+  const linesWon = lines.map(line => line.units.every(key => unitWon[key]))
+  const payout = lines.reduce((sum, line, idx) => linesWon[idx] ? sum + stakePerLine * line.odds : sum, 0)
+  return { linesWon, payout }
+}
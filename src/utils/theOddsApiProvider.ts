@@ -0,0 +1,87 @@
+/**
+ * OddsProvider backed by The Odds API v4
+ */
+
+import { DEFAULT_ODDS_REQUEST, OddsProvider, OddsRequest, toOutrightsRequest } from './oddsProvider'
+import { eventsToMatches, eventsToOutrights, OddsApiEvent, OddsApiScoreEvent, OddsApiSport, scoreEventsToMatchScores, sportsToLeagues } from './oddsApiTransform'
+
+const BASE_URL = 'https://api.the-odds-api.com/v4'
+
+export function createTheOddsApiProvider(apiKey: string): OddsProvider {
+  const fetchEvents = async (leagueKey: string, request: OddsRequest) => {
+    const params = new URLSearchParams({
+      api_key: apiKey,
+      markets: request.markets.join(','),
+      oddsFormat: 'decimal',
+      dateFormat: 'iso'
+    })
+    // The API ignores regions when bookmakers are given
+    if (request.bookmakers.length > 0) {
+      params.set('bookmakers', request.bookmakers.join(','))
+    } else {
+      params.set('regions', request.regions.join(','))
+    }
+
+    const response = await fetch(`${BASE_URL}/sports/${leagueKey}/odds?${params}`)
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`)
+    }
+
+    const data: OddsApiEvent[] = await response.json()
+    const remaining = response.headers.get('x-requests-remaining')
+    return { data, requestsRemaining: remaining ? parseInt(remaining) : null }
+  }
+
+  return {
+    name: 'The Odds API',
+
+    async fetchLeagues() {
+      const response = await fetch(`${BASE_URL}/sports?api_key=${apiKey}`)
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`)
+      }
+
+      const data: OddsApiSport[] = await response.json()
+      return sportsToLeagues(data)
+    },
+
+    async fetchOdds(leagueKey: string, request: OddsRequest = DEFAULT_ODDS_REQUEST) {
+      const { data, requestsRemaining } = await fetchEvents(leagueKey, request)
+      return {
+        matches: eventsToMatches(data, request.bookmakers),
+        requestsRemaining
+      }
+    },
+
+    async fetchOutrights(leagueKey: string, request: OddsRequest = DEFAULT_ODDS_REQUEST) {
+      const { data, requestsRemaining } = await fetchEvents(leagueKey, toOutrightsRequest(request))
+      return {
+        outrights: eventsToOutrights(data, request.bookmakers),
+        requestsRemaining
+      }
+    },
+
+    async fetchScores(leagueKey: string, daysFrom?: number) {
+      const params = new URLSearchParams({
+        api_key: apiKey,
+        dateFormat: 'iso'
+      })
+      // Completed matches cost 2 credits instead of 1
+      if (daysFrom !== undefined) params.set('daysFrom', String(daysFrom))
+      const response = await fetch(`${BASE_URL}/sports/${leagueKey}/scores?${params}`)
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`)
+      }
+
+      const data: OddsApiScoreEvent[] = await response.json()
+      const remaining = response.headers.get('x-requests-remaining')
+      return {
+        scores: scoreEventsToMatchScores(data),
+        requestsRemaining: remaining ? parseInt(remaining) : null
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Per-user wallet built on the ledger
+ *
+ * Money is held in two funds: cash, which can be withdrawn, and bonus funds,
+ * which can only be staked. Stakes and losses are taken from cash first and
+ * then from bonus funds; returns, cash-outs and winnings are paid as cash.
+ * Every entry is written under one user id, so a wallet never reads or
+ * writes another user's money.
+ *
+ * A wallet's currency is chosen when the account is registered and fixed
+ * from then on: amounts are never converted, so the starting balance and
+ * welcome bonus are set per currency instead.
+ */
+
+import { Fund, LedgerEntry } from './betLedger'
+
+export interface WalletBalances {
+  cash: number
+  bonus: number
+  total: number
+}
+
+export type WalletTransaction = Pick<LedgerEntry, 'type' | 'amount' | 'description' | 'betId' | 'staked'> & {
+  /** Fund to credit or debit; debits without one use cash, then bonus funds */
+  fund?: Fund
+}
+
+export const DEFAULT_CURRENCY = 'KES'
+
+export const CURRENCIES: Array<{
+  value: string
+  label: string
+  /** Opening balance of a new wallet, and the balance after a reset, in cash */
+  startingBalance: number
+  /** The first deposit is matched in bonus funds up to this amount */
+  welcomeBonusCap: number
+}> = [
+  { value: 'KES', label: 'Kenyan Shilling', startingBalance: 50000, welcomeBonusCap: 5000 },
+  { value: 'UGX', label: 'Ugandan Shilling', startingBalance: 1500000, welcomeBonusCap: 150000 },
+  { value: 'TZS', label: 'Tanzanian Shilling', startingBalance: 1000000, welcomeBonusCap: 100000 },
+  { value: 'NGN', label: 'Nigerian Naira', startingBalance: 500000, welcomeBonusCap: 50000 },
+  { value: 'ZAR', label: 'South African Rand', startingBalance: 7500, welcomeBonusCap: 750 },
+  { value: 'USD', label: 'US Dollar', startingBalance: 500, welcomeBonusCap: 50 },
+  { value: 'EUR', label: 'Euro', startingBalance: 500, welcomeBonusCap: 50 },
+  { value: 'GBP', label: 'British Pound', startingBalance: 400, welcomeBonusCap: 40 }
+]
+
+function getCurrency(currency: string) {
+  return CURRENCIES.find(option => option.value === currency) || CURRENCIES.find(option => option.value === DEFAULT_CURRENCY)!
+}
+
+export function getStartingBalance(currency: string): number {
+  return getCurrency(currency).startingBalance
+}
+
+export function getWelcomeBonusCap(currency: string): number {
+  return getCurrency(currency).welcomeBonusCap
+}
+
+/**
+ * Cash and bonus balances a ledger adds up to; entries from before bonus
+ * funds existed are cash
+ */
+export function getWalletBalances(entries: LedgerEntry[]): WalletBalances {
+  const bonus = entries.reduce((sum, entry) => entry.fund === 'bonus' ? sum + entry.amount : sum, 0)
+  const cash = entries.reduce((sum, entry) => entry.fund !== 'bonus' ? sum + entry.amount : sum, 0)
+  return { cash, bonus, total: cash + bonus }
+}
+
+/**
+ * Ledger entries for a batch of transactions, splitting each debit between
+ * the funds it is taken from
+ */
+export function toLedgerEntries(
+  userId: string,
+  balances: WalletBalances,
+  transactions: WalletTransaction[],
+  now: Date = new Date()
+): LedgerEntry[] {
+  const createdAt = now.toISOString()
+  let { cash, bonus } = balances
+
+  return transactions.flatMap(({ fund, ...transaction }) => {
+    if (fund || transaction.amount >= 0) {
+      const target = fund || 'cash'
+      if (target === 'cash') cash += transaction.amount
+      else bonus += transaction.amount
+      return [{ ...transaction, fund: target, userId, createdAt }]
+    }
+
+    const fromCash = Math.min(-transaction.amount, Math.max(cash, 0))
+    const fromBonus = Math.min(-transaction.amount - fromCash, Math.max(bonus, 0))
+    // Anything the funds can't cover overdraws cash
+    const overdraft = -transaction.amount - fromCash - fromBonus
+    cash -= fromCash + overdraft
+    bonus -= fromBonus
+
+    const entries: LedgerEntry[] = []
+    if (fromCash + overdraft > 0) entries.push({ ...transaction, amount: -(fromCash + overdraft), fund: 'cash', userId, createdAt })
+    if (fromBonus > 0) entries.push({ ...transaction, amount: -fromBonus, fund: 'bonus', userId, createdAt })
+    return entries
+  })
+}
+
+/**
+ * Transactions for a deposit, with the welcome bonus on the first one
+ */
+export function depositTransactions(amount: number, isFirstDeposit: boolean, currency: string): WalletTransaction[] {
+  const transactions: WalletTransaction[] = [{ type: 'deposit', amount, fund: 'cash', description: 'Deposit' }]
+  const bonus = isFirstDeposit ? Math.min(amount, getWelcomeBonusCap(currency)) : 0
+  if (bonus > 0) {
+    transactions.push({ type: 'bonus', amount: bonus, fund: 'bonus', description: 'Welcome bonus (first deposit matched)' })
+  }
+  return transactions
+}
+
+/**
+ * Why a withdrawal can't be made, or null when it can; bonus funds can't
+ * be withdrawn
+ */
+export function getWithdrawalError(balances: WalletBalances, amount: number): string | null {
+  if (!(amount > 0)) return 'Enter an amount to withdraw'
+  if (amount > balances.cash) return 'Withdrawals are limited to your cash balance'
+  return null
+}
+
+interface WalletSettings {
+  currency?: string
+  /** Running balance kept apart from the ledger, see `loadStoredBalance` */
+  balance?: number
+}
+
+const walletSettingsKey = (userId: string) => `wallet_${userId}`
+
+function loadWalletSettings(userId: string): WalletSettings {
+  try {
+    return JSON.parse(localStorage.getItem(walletSettingsKey(userId)) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function saveWalletSettings(userId: string, changes: WalletSettings) {
+  localStorage.setItem(walletSettingsKey(userId), JSON.stringify({ ...loadWalletSettings(userId), ...changes }))
+}
+
+export function loadCurrency(userId: string): string {
+  return loadWalletSettings(userId).currency || DEFAULT_CURRENCY
+}
+
+/**
+ * Set a wallet's currency; only done at registration, before the wallet
+ * has any entries
+ */
+export function saveCurrency(userId: string, currency: string) {
+  saveWalletSettings(userId, { currency })
+}
+
+/**
+ * The balance recorded alongside the ledger: each transaction adds to it as
+ * it is written, so it is an independent check on what the stored ledger
+ * adds up to. Undefined until the wallet first records it.
+ */
+export function loadStoredBalance(userId: string): number | undefined {
+  const { balance } = loadWalletSettings(userId)
+  return typeof balance === 'number' ? balance : undefined
+}
+
+export function saveStoredBalance(userId: string, balance: number) {
+  saveWalletSettings(userId, { balance })
+}
+
+/**
+ * Add a change to the stored balance and return the new one
+ */
+export function addToStoredBalance(userId: string, amount: number): number {
+  const balance = (loadStoredBalance(userId) ?? 0) + amount
+  saveStoredBalance(userId, balance)
+  return balance
+}
+
+/**
+ * An amount for display, e.g. "KES 1250.00"
+ */
+export function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toFixed(2)}`
+}